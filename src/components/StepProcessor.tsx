@@ -3,24 +3,35 @@ import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 import {
-  detectSensitiveData,
+  detectSensitiveDataWithDiagnostics,
   maskText,
   restoreText,
-  validatePlaceholders,
+  applySuggestedFixes,
   validatePlaceholdersDetailed,
+  substituteDetailsFor,
+  findAmbiguousSubstitutes,
+  DEFAULT_DETECTION_OPTIONS,
   type DetectedEntity,
+  type DetectionOptions,
+  type SensitiveDataType,
 } from "@/lib/text-processor";
+import { linkPartialNames } from "@/lib/coreference";
+import {
+  addRedaction,
+  changeNameProfile,
+  removeRedaction,
+  replaceSubstitute,
+  validateSubstitute,
+} from "@/lib/redaction-edits";
+import type { DiscardedCandidate } from "@/lib/span-resolution";
+import type { NameProfile } from "@/lib/name-profile";
+import { useCustomRules } from "@/hooks/use-custom-rules";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { createAllowlistEntry, type AllowlistEntry } from "@/lib/allowlist";
 import { StepIndicator } from "./step-processor/StepIndicator";
 import { StepContent } from "./step-processor/StepContent";
 import { steps } from "@/constants/step-processor";
-import {
-  HoverCard,
-  HoverCardTrigger,
-  HoverCardContent,
-} from "@/components/ui/hover-card";
-import { categoryColors } from "@/constants/step-processor";
-import { Copy, AlertCircle } from "lucide-react";
-import { Button } from "@/components/ui/button";
+import { AlertCircle } from "lucide-react";
 import { useGesture } from "@use-gesture/react";
 import {
   AlertDialog,
@@ -35,8 +46,15 @@ import {
 export function StepProcessor() {
   const [currentStep, setCurrentStep] = useState(0);
   const [inputText, setInputText] = useState("");
+  const [detectionOptions, setDetectionOptions] = useState<DetectionOptions>(DEFAULT_DETECTION_OPTIONS);
+  const { rules: customRules, setRules: setCustomRules } = useCustomRules();
+  const [allowlist, setAllowlist] = useLocalStorage<AllowlistEntry[]>("blind-pigeon.allowlist", []);
   const [maskedText, setMaskedText] = useState("");
+  // Whether maskedText was watermarked when it was made; the setting may have changed since
+  const [maskedWatermarked, setMaskedWatermarked] = useState(false);
   const [entities, setEntities] = useState<DetectedEntity[]>([]);
+  const [discarded, setDiscarded] = useState<DiscardedCandidate[]>([]);
+  const [restoreInput, setRestoreInput] = useState("");
   const [showOriginal, setShowOriginal] = useState(true);
   const [allItemsReviewed, setAllItemsReviewed] = useState(false);
   const [textCopied, setTextCopied] = useState(false);
@@ -88,6 +106,17 @@ export function StepProcessor() {
     }
   );
 
+  // A detector that threw may have left its kind of data in the text; say so rather than pass the text off as clean.
+  // Only one toast shows at a time, so this replaces the usual confirmation.
+  const toastFailedDetectors = (failed: string[]) => {
+    toast({
+      title: "Some detectors failed",
+      description: `${failed.join(", ")} could not run, so what they look for may not be masked. Check the text before sharing it.`,
+      variant: "destructive",
+      duration: 8000,
+    });
+  };
+
   const handleDetectAndMask = () => {
     if (!inputText) {
       toast({
@@ -99,8 +128,13 @@ export function StepProcessor() {
       return;
     }
 
-    const detected = detectSensitiveData(inputText);
+    const detection = detectSensitiveDataWithDiagnostics(inputText, { ...detectionOptions, allowlist });
+    const detected = linkPartialNames(inputText, detection.entities, allowlist);
     if (detected.length === 0) {
+      if (detection.failedDetectors.length > 0) {
+        toastFailedDetectors(detection.failedDetectors);
+        return;
+      }
       toast({
         title: "No sensitive data found",
         description: "No sensitive data was detected in the text.",
@@ -110,14 +144,34 @@ export function StepProcessor() {
       return;
     }
 
+    // Shifted dates and other derived substitutes must each stand for one value, or restore mixes them up
+    const ambiguous = findAmbiguousSubstitutes(detected);
+    if (ambiguous.length > 0) {
+      toast({
+        title: "Substitutes are not unique",
+        description: `${ambiguous.join(", ")} would replace more than one value. Change the substitute settings and try again.`,
+        variant: "destructive",
+        duration: 5000,
+      });
+      return;
+    }
+
     setEntities(detected);
-    const masked = maskText(inputText, detected);
+    setDiscarded(detection.discarded);
+    const masked = maskText(inputText, detected, detectionOptions.watermarkSubstitutes);
     setMaskedText(masked);
+    setMaskedWatermarked(detectionOptions.watermarkSubstitutes);
     setShowOriginal(false);
     setCurrentStep(1);
     setAllItemsReviewed(false);
     setTextCopied(false);
-    
+    setRestoreInput("");
+    setValidationResult(validatePlaceholdersDetailed("", detected));
+
+    if (detection.failedDetectors.length > 0) {
+      toastFailedDetectors(detection.failedDetectors);
+      return;
+    }
     toast({
       title: "Sensitive data masked",
       description: `${detected.length} items were automatically detected and masked.`,
@@ -125,6 +179,84 @@ export function StepProcessor() {
     });
   };
 
+  // Any change to the redactions invalidates the copied text and the restore check
+  const applyEntities = (next: DetectedEntity[]) => {
+    setEntities(next);
+    setMaskedText(maskText(inputText, next, detectionOptions.watermarkSubstitutes));
+    setMaskedWatermarked(detectionOptions.watermarkSubstitutes);
+    setTextCopied(false);
+    setValidationResult(validatePlaceholdersDetailed(restoreInput, next));
+  };
+
+  // Keeps the value from now on and un-redacts it in the current text straight away
+  const handleAllowEntity = (entity: DetectedEntity) => {
+    const nextAllowlist = [...allowlist, createAllowlistEntry(entity.value, entity.type)];
+    setAllowlist(nextAllowlist);
+
+    const detection = detectSensitiveDataWithDiagnostics(inputText, { ...detectionOptions, allowlist: nextAllowlist });
+    setDiscarded(detection.discarded);
+    applyEntities(linkPartialNames(inputText, detection.entities, nextAllowlist));
+
+    if (detection.failedDetectors.length > 0) {
+      toastFailedDetectors(detection.failedDetectors);
+      return;
+    }
+    toast({
+      title: "Added to allowlist",
+      description: `"${entity.value}" will no longer be redacted as ${entity.type}.`,
+      duration: 3000,
+    });
+  };
+
+  // Without an index every occurrence is affected; with one, only the occurrence starting there.
+  // Returns false when there is nothing left to redact.
+  const handleAddRedaction = (value: string, type: SensitiveDataType, index?: number): boolean => {
+    const next = addRedaction(inputText, entities, value, type, index, substituteDetailsFor(detectionOptions, type));
+    if (next === entities) return false;
+
+    applyEntities(next);
+    toast({
+      title: "Redaction added",
+      description: `${next.length - entities.length} occurrence(s) of "${value}" are now masked.`,
+      duration: 3000,
+    });
+    return true;
+  };
+
+  const handleRemoveRedaction = (value: string, index?: number) => {
+    const next = removeRedaction(entities, value, index);
+    applyEntities(next);
+    toast({
+      title: "Redaction removed",
+      description: `${entities.length - next.length} occurrence(s) of "${value}" will appear unmasked in the text.`,
+      duration: 3000,
+    });
+  };
+
+  // Returns a message explaining why the substitute was rejected, or null once it is applied
+  const handleUpdateSubstitute = (value: string, substitute: string, index?: number): string | null => {
+    const error = validateSubstitute(inputText, entities, value, substitute);
+    if (error) return error;
+
+    applyEntities(replaceSubstitute(entities, value, substitute, index));
+    toast({
+      title: "Substitution updated",
+      description: `Updated replacement for "${value}"`,
+    });
+    return null;
+  };
+
+  // Partial mentions ("Maria", "Ms. Fernández") follow the full name's new substitute
+  const handleChangeNameProfile = (value: string, profile: NameProfile) => {
+    const next = changeNameProfile(entities, value, profile, substituteDetailsFor(detectionOptions, "name"));
+    applyEntities(linkPartialNames(inputText, next, allowlist));
+    toast({
+      title: "Substitution updated",
+      description: `"${value}" now becomes "${next.find(entity => entity.value === value)?.substitute}".`,
+      duration: 3000,
+    });
+  };
+
   const handleCopy = async () => {
     if (!maskedText) {
       toast({
@@ -155,6 +287,43 @@ export function StepProcessor() {
     }
   };
 
+  const handleRestoreInputChange = (text: string) => {
+    setRestoreInput(text);
+    setValidationResult(validatePlaceholdersDetailed(text, entities));
+  };
+
+  const handleApplyFixes = () => {
+    handleRestoreInputChange(applySuggestedFixes(restoreInput, validationResult.suggestedFixes));
+  };
+
+  const handleCopyRestored = async () => {
+    try {
+      await navigator.clipboard.writeText(restoreText(restoreInput, entities));
+      toast({
+        title: "✅ Restored text copied!",
+        description: steps[3].validationMessage.success,
+        duration: 3000,
+      });
+    } catch (err) {
+      toast({
+        title: "❗ Failed to copy",
+        description: "Please try copying the text manually.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  const handleDownloadRestored = () => {
+    const blob = new Blob([restoreText(restoreInput, entities)], { type: "text/plain;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "restored-text.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleNext = () => {
     if (isStepValid(currentStep)) {
       setCurrentStep(prev => prev + 1);
@@ -170,7 +339,11 @@ export function StepProcessor() {
   const handleReset = () => {
     setInputText("");
     setMaskedText("");
+    setMaskedWatermarked(false);
     setEntities([]);
+    setDiscarded([]);
+    setRestoreInput("");
+    setValidationResult(validatePlaceholdersDetailed("", []));
     setShowOriginal(true);
     setCurrentStep(0);
     setAllItemsReviewed(false);
@@ -181,71 +354,6 @@ export function StepProcessor() {
     });
   };
 
-  const formatPlaceholderDisplay = (text: string, entities: DetectedEntity[]): JSX.Element => {
-    let lastIndex = 0;
-    const elements: JSX.Element[] = [];
-    
-    entities.forEach((entity, idx) => {
-      if (lastIndex < entity.index) {
-        elements.push(
-          <span key={`text-${idx}`}>
-            {text.slice(lastIndex, entity.index)}
-          </span>
-        );
-      }
-      
-      const category = categoryColors[entity.type] || categoryColors.custom;
-      elements.push(
-        <HoverCard key={`substitute-${idx}`}>
-          <HoverCardTrigger asChild>
-            <span
-              className={`px-1.5 py-0.5 rounded cursor-help transition-colors ${category.bg} ${category.text} hover:opacity-90`}
-            >
-              {category.icon} {entity.substitute}
-            </span>
-          </HoverCardTrigger>
-          <HoverCardContent className="w-fit p-3 space-y-2">
-            <div className="text-sm space-y-1.5">
-              <div className="font-semibold">{entity.type.toUpperCase()}</div>
-              <div className="flex items-center gap-2">
-                <span className="text-xs text-muted-foreground">Original:</span>
-                <div className="flex items-center gap-1.5">
-                  <code className="px-2 py-1 bg-muted rounded text-xs">
-                    {entity.value}
-                  </code>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-6 w-6 p-0"
-                    onClick={() => {
-                      navigator.clipboard.writeText(entity.value);
-                      toast({
-                        title: "Copied to clipboard",
-                        duration: 2000,
-                      });
-                    }}
-                  >
-                    <Copy className="h-3 w-3" />
-                  </Button>
-                </div>
-              </div>
-            </div>
-          </HoverCardContent>
-        </HoverCard>
-      );
-      
-      lastIndex = entity.index + entity.value.length;
-    });
-    
-    if (lastIndex < text.length) {
-      elements.push(
-        <span key="text-end">{text.slice(lastIndex)}</span>
-      );
-    }
-    
-    return <>{elements}</>;
-  };
-
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
       <Card 
@@ -262,17 +370,35 @@ export function StepProcessor() {
             currentStep={currentStep}
             inputText={inputText}
             setInputText={setInputText}
+            detectionOptions={detectionOptions}
+            setDetectionOptions={setDetectionOptions}
+            customRules={customRules}
+            setCustomRules={setCustomRules}
+            allowlist={allowlist}
+            setAllowlist={setAllowlist}
+            handleAllowEntity={handleAllowEntity}
+            handleAddRedaction={handleAddRedaction}
+            handleRemoveRedaction={handleRemoveRedaction}
+            handleUpdateSubstitute={handleUpdateSubstitute}
+            handleChangeNameProfile={handleChangeNameProfile}
             maskedText={maskedText}
+            maskedWatermarked={maskedWatermarked}
             entities={entities}
+            discarded={discarded}
+            restoreInput={restoreInput}
+            setRestoreInput={handleRestoreInputChange}
+            validationResult={validationResult}
             showOriginal={showOriginal}
             setShowOriginal={setShowOriginal}
             handleDetectAndMask={handleDetectAndMask}
             handleCopy={handleCopy}
+            handleApplyFixes={handleApplyFixes}
+            handleCopyRestored={handleCopyRestored}
+            handleDownloadRestored={handleDownloadRestored}
             handleReset={handleReset}
             handleBack={handleBack}
             handleNext={handleNext}
             isStepValid={isStepValid}
-            formatPlaceholderDisplay={formatPlaceholderDisplay}
           />
         </div>
       </Card>
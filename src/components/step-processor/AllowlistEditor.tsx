@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldOff, Trash2 } from "lucide-react";
+import { SensitiveDataType } from "@/lib/text-processor";
+import {
+  createAllowlistEntry,
+  validateAllowlistEntry,
+  type AllowlistEntry,
+  type AllowlistMatchMode,
+} from "@/lib/allowlist";
+import { categoryColors } from "@/constants/step-processor";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const matchModeLabels: Record<AllowlistMatchMode, string> = {
+  exact: "Exact",
+  "case-insensitive": "Any case",
+  regex: "Regex",
+};
+
+interface AllowlistEditorProps {
+  entries: AllowlistEntry[];
+  setEntries: (entries: AllowlistEntry[]) => void;
+}
+
+export function AllowlistEditor({ entries, setEntries }: AllowlistEditorProps) {
+  const [draft, setDraft] = useState<AllowlistEntry>(() => createAllowlistEntry(""));
+  const error = validateAllowlistEntry(draft);
+
+  const update = <K extends keyof AllowlistEntry>(key: K, value: AllowlistEntry[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleAdd = () => {
+    if (error) return;
+    setEntries([...entries, draft]);
+    setDraft(createAllowlistEntry("", draft.category, draft.mode));
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="transition-colors duration-200">
+          <ShieldOff className="mr-2 h-4 w-4" />
+          Allowlist{entries.length > 0 && ` (${entries.length})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Allowlist</DialogTitle>
+          <DialogDescription>
+            Terms that are never redacted, such as your company or product names.
+            Entries are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg text-sm">
+                <code className="truncate flex-1" title={entry.value}>{entry.value}</code>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {matchModeLabels[entry.mode]} · {entry.category === "all"
+                    ? "all categories"
+                    : `${categoryColors[entry.category].icon} ${entry.category}`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEntries(entries.filter(other => other.id !== entry.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border rounded-lg p-4">
+          <div className="space-y-2">
+            <Label htmlFor="allowlist-value">Keep</Label>
+            <Input
+              id="allowlist-value"
+              value={draft.value}
+              onChange={(e) => update("value", e.target.value)}
+              placeholder={draft.mode === "regex" ? "Acme (Inc|Ltd)" : "Acme Inc"}
+              className={draft.mode === "regex" ? "font-mono text-sm" : ""}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="allowlist-mode">Match</Label>
+              <Select
+                value={draft.mode}
+                onValueChange={(value) => update("mode", value as AllowlistMatchMode)}
+              >
+                <SelectTrigger id="allowlist-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(matchModeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="allowlist-category">Applies to</Label>
+              <Select
+                value={draft.category}
+                onValueChange={(value) => update("category", value as SensitiveDataType | "all")}
+              >
+                <SelectTrigger id="allowlist-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {Object.keys(categoryColors).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      <div className="flex items-center gap-2">
+                        <span>{categoryColors[type as SensitiveDataType].icon}</span>
+                        <span className="capitalize">{type}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {draft.mode === "regex" && (
+            <p className="text-xs text-muted-foreground">
+              The expression must match the whole detected value.
+            </p>
+          )}
+          {error && draft.value && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={Boolean(error)}>
+              Add to Allowlist
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronRight, Edit2, ListPlus, Trash2 } from "lucide-react";
+import { SensitiveDataType } from "@/lib/text-processor";
+import { createId } from "@/lib/utils";
+import {
+  findRuleMatches,
+  validateRule,
+  type CustomRule,
+  type CustomRuleKind,
+} from "@/lib/custom-rules";
+import { categoryColors } from "@/constants/step-processor";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ruleKindLabels: Record<CustomRuleKind, string> = {
+  regex: "Regular expression",
+  term: "Exact term",
+  wordlist: "Word list",
+};
+
+const patternPlaceholders: Record<CustomRuleKind, string> = {
+  regex: "ACME-\\d{6}",
+  term: "Project Falcon",
+  wordlist: "One entry per line",
+};
+
+const PREVIEW_LIMIT = 8;
+
+const emptyRule = (): CustomRule => ({
+  id: createId(),
+  name: "",
+  kind: "regex",
+  pattern: "",
+  caseSensitive: false,
+  category: "custom",
+  template: "",
+  enabled: true,
+});
+
+interface CustomRulesEditorProps {
+  rules: CustomRule[];
+  setRules: (rules: CustomRule[]) => void;
+  inputText: string;
+}
+
+export function CustomRulesEditor({ rules, setRules, inputText }: CustomRulesEditorProps) {
+  const [draft, setDraft] = useState<CustomRule>(emptyRule);
+  const isEditing = rules.some(rule => rule.id === draft.id);
+
+  const error = validateRule(draft);
+  // Nothing to complain about until the user has typed something
+  const isPristine = !draft.name && !draft.pattern;
+  const preview = useMemo(
+    () => (error ? [] : findRuleMatches(inputText, draft)),
+    [error, inputText, draft]
+  );
+
+  const update = <K extends keyof CustomRule>(key: K, value: CustomRule[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    if (error) return;
+    setRules(isEditing
+      ? rules.map(rule => (rule.id === draft.id ? draft : rule))
+      : [...rules, draft]);
+    setDraft(emptyRule());
+  };
+
+  const handleDelete = (id: string) => {
+    setRules(rules.filter(rule => rule.id !== id));
+    if (draft.id === id) setDraft(emptyRule());
+  };
+
+  const handleToggle = (id: string, enabled: boolean) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, enabled } : rule)));
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="transition-colors duration-200">
+          <ListPlus className="mr-2 h-4 w-4" />
+          Rules{rules.length > 0 && ` (${rules.filter(rule => rule.enabled).length})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Rules</DialogTitle>
+          <DialogDescription>
+            Redact your own patterns, terms and word lists, such as project codenames or customer IDs.
+            Rules are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rules.length > 0 && (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-2 p-2 bg-muted/50 rounded-lg text-sm">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => handleToggle(rule.id, checked)}
+                />
+                <span>{categoryColors[rule.category].icon}</span>
+                <span className="font-medium truncate">{rule.name}</span>
+                <code className="text-xs text-muted-foreground truncate flex-1" title={rule.pattern}>
+                  {rule.pattern.split("\n").join(", ")}
+                </code>
+                <Button variant="ghost" size="sm" onClick={() => setDraft(rule)}>
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border rounded-lg p-4">
+          <h4 className="font-medium leading-none">{isEditing ? "Edit Rule" : "New Rule"}</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="Customer IDs"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-kind">Match</Label>
+              <Select
+                value={draft.kind}
+                onValueChange={(value) => update("kind", value as CustomRuleKind)}
+              >
+                <SelectTrigger id="rule-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ruleKindLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rule-pattern">{ruleKindLabels[draft.kind]}</Label>
+            {draft.kind === "wordlist" ? (
+              <Textarea
+                id="rule-pattern"
+                value={draft.pattern}
+                onChange={(e) => update("pattern", e.target.value)}
+                placeholder={patternPlaceholders.wordlist}
+                className="min-h-[80px] font-mono text-sm"
+              />
+            ) : (
+              <Input
+                id="rule-pattern"
+                value={draft.pattern}
+                onChange={(e) => update("pattern", e.target.value)}
+                placeholder={patternPlaceholders[draft.kind]}
+                className="font-mono text-sm"
+              />
+            )}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="rule-case-sensitive"
+                checked={draft.caseSensitive}
+                onCheckedChange={(checked) => update("caseSensitive", checked)}
+              />
+              <Label htmlFor="rule-case-sensitive" className="text-xs font-normal">Case sensitive</Label>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-category">Category</Label>
+              <Select
+                value={draft.category}
+                onValueChange={(value) => update("category", value as SensitiveDataType)}
+              >
+                <SelectTrigger id="rule-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(categoryColors).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      <div className="flex items-center gap-2">
+                        <span>{categoryColors[type as SensitiveDataType].icon}</span>
+                        <span className="capitalize">{type}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-template">Substitute template</Label>
+              <Input
+                id="rule-template"
+                value={draft.template}
+                onChange={(e) => update("template", e.target.value)}
+                placeholder="CUSTOMER-{n}"
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {"{n}"} numbers each distinct match and {"{type}"} inserts the category.
+            Leave the template empty to generate realistic values for the category.
+          </p>
+
+          {error && !isPristine && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {!error && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {preview.length === 0
+                  ? "No matches in the current text."
+                  : `${preview.length} match${preview.length === 1 ? "" : "es"} in the current text`}
+              </p>
+              {preview.slice(0, PREVIEW_LIMIT).map((match, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-xs">
+                  <code className="p-1 bg-muted/50 rounded truncate">{match.value}</code>
+                  <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                  <code className="p-1 bg-muted/50 rounded truncate">
+                    {match.substitute ?? `generated ${draft.category}`}
+                  </code>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {isEditing && (
+              <Button variant="outline" onClick={() => setDraft(emptyRule())}>
+                Cancel
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={Boolean(error)}>
+              {isEditing ? "Save Rule" : "Add Rule"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
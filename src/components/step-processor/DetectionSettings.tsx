@@ -0,0 +1,239 @@
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Copy, KeyRound, Settings2 } from "lucide-react";
+import { DetectionOptions } from "@/lib/text-processor";
+import { LocationGranularity } from "@/lib/detectors/locations";
+import { PHONE_REGIONS } from "@/data/phone-metadata";
+import { generatePseudonymKey } from "@/lib/pseudonym";
+import { useToast } from "@/components/ui/use-toast";
+import { SUBSTITUTE_LOCALE_LABELS, type SubstituteLocale } from "@/data/synthetic";
+import { WatermarkTest } from "./WatermarkTest";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const locationGranularityLabels: Record<LocationGranularity, string> = {
+  off: "Don't mask places",
+  city: "Cities and postal codes",
+  region: "Cities and regions",
+  country: "All places, including countries",
+};
+
+interface DetectionSettingsProps {
+  options: DetectionOptions;
+  setOptions: (options: DetectionOptions) => void;
+}
+
+export function DetectionSettings({ options, setOptions }: DetectionSettingsProps) {
+  const update = <K extends keyof DetectionOptions>(key: K, value: DetectionOptions[K]) => {
+    setOptions({ ...options, [key]: value });
+  };
+  const { toast } = useToast();
+
+  const handleCopyKey = async () => {
+    try {
+      await navigator.clipboard.writeText(options.pseudonymKey);
+      toast({
+        title: "Key copied",
+        description: "Share it only with people who should get the same substitutes.",
+        duration: 3000,
+      });
+    } catch (err) {
+      toast({
+        title: "❗ Failed to copy",
+        description: "The browser did not allow access to the clipboard.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="transition-colors duration-200">
+          <Settings2 className="mr-2 h-4 w-4" />
+          Settings
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="space-y-1">
+          <h4 className="font-medium leading-none">Detection Settings</h4>
+          <p className="text-xs text-muted-foreground">
+            Choose what gets detected before redacting.
+          </p>
+        </div>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="redact-all-dates">Redact all dates</Label>
+            <p className="text-xs text-muted-foreground">
+              Birth dates are always redacted. Turn this on to redact every other date too.
+            </p>
+          </div>
+          <Switch
+            id="redact-all-dates"
+            checked={options.redactAllDates}
+            onCheckedChange={(checked) => update("redactAllDates", checked)}
+          />
+        </div>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="keep-email-domains">Keep email domains</Label>
+            <p className="text-xs text-muted-foreground">
+              Only the mailbox is replaced, so the LLM still sees which organisation an address belongs to.
+            </p>
+          </div>
+          <Switch
+            id="keep-email-domains"
+            checked={options.keepEmailDomains}
+            onCheckedChange={(checked) => update("keepEmailDomains", checked)}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="watermark-substitutes">Watermark substitutes</Label>
+              <p className="text-xs text-muted-foreground">
+                Hides an invisible ID in each substitute, so restore finds it even when the AI re-cases or rewords it.
+                Some tools strip these characters; test yours first.
+              </p>
+            </div>
+            <Switch
+              id="watermark-substitutes"
+              checked={options.watermarkSubstitutes}
+              onCheckedChange={(checked) => update("watermarkSubstitutes", checked)}
+            />
+          </div>
+          <WatermarkTest />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="location-granularity">Mask locations</Label>
+          <Select
+            value={options.locationGranularity}
+            onValueChange={(value) => update("locationGranularity", value as LocationGranularity)}
+          >
+            <SelectTrigger id="location-granularity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(locationGranularityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Coarser places are kept, e.g. mask cities but keep countries.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="default-phone-region">Default phone region</Label>
+          <Select
+            value={options.defaultPhoneRegion}
+            onValueChange={(value) => update("defaultPhoneRegion", value)}
+          >
+            <SelectTrigger id="default-phone-region">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PHONE_REGIONS.map((region) => (
+                <SelectItem key={region.country} value={region.country}>
+                  {region.name} (+{region.callingCode})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Used to read numbers written without a country code.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="internal-domains">Internal domains</Label>
+          <Input
+            id="internal-domains"
+            defaultValue={options.internalDomains.join(", ")}
+            onBlur={(e) => update(
+              "internalDomains",
+              e.target.value.split(",").map(domain => domain.trim()).filter(Boolean)
+            )}
+            placeholder="internal, corp, acme.local"
+            className="text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Comma-separated. Hostnames under these domains are redacted.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="substitute-locale">Substitute language</Label>
+          <Select
+            value={options.substituteLocale}
+            onValueChange={(value) => update("substituteLocale", value as SubstituteLocale | "auto")}
+          >
+            <SelectTrigger id="substitute-locale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Match each original</SelectItem>
+              {Object.entries(SUBSTITUTE_LOCALE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Fake names and addresses are written in this language and format.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pseudonym-key">Pseudonymisation key</Label>
+          <div className="flex gap-2">
+            <Input
+              id="pseudonym-key"
+              type="password"
+              autoComplete="off"
+              value={options.pseudonymKey}
+              onChange={(e) => update("pseudonymKey", e.target.value)}
+              placeholder="Random substitutes"
+              className="text-sm font-mono"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              title="Generate a new key"
+              onClick={() => update("pseudonymKey", generatePseudonymKey())}
+            >
+              <KeyRound className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Copy key"
+              disabled={!options.pseudonymKey}
+              onClick={handleCopyKey}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            With a key, the same value always gets the same substitute, in every document and for everyone using the key.
+            Keep it secret: it is not stored.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
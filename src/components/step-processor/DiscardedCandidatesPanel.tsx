@@ -0,0 +1,65 @@
+import { Button } from "@/components/ui/button";
+import { Bug, ChevronDown } from "lucide-react";
+import { DiscardedCandidate } from "@/lib/span-resolution";
+import { categoryColors } from "@/constants/step-processor";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+
+interface DiscardedCandidatesPanelProps {
+  discarded: DiscardedCandidate[];
+}
+
+export function DiscardedCandidatesPanel({ discarded }: DiscardedCandidatesPanelProps) {
+  if (discarded.length === 0) return null;
+
+  return (
+    <Collapsible className="border border-dashed rounded-lg">
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full flex justify-between items-center p-4 hover:bg-muted/80 text-muted-foreground"
+        >
+          <span className="flex items-center gap-2 text-sm">
+            <Bug className="h-4 w-4" />
+            Discarded Candidates ({discarded.length})
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="p-4 pt-0 space-y-2 max-h-[300px] overflow-y-auto">
+          <p className="text-xs text-muted-foreground">
+            These spans were found but not redacted on their own, because a stronger match overlapped them or the allowlist keeps them.
+          </p>
+          {discarded.map(({ candidate, reason, keptBy }, idx) => (
+            <div key={idx} className="p-2 bg-muted/30 rounded-lg text-xs space-y-1">
+              <div className="flex items-center gap-2">
+                <span>{categoryColors[candidate.type].icon}</span>
+                <code className="truncate" title={candidate.value}>{candidate.value}</code>
+                <span className="ml-auto text-muted-foreground whitespace-nowrap">
+                  {candidate.detectorId} · priority {candidate.priority} · {Math.round(candidate.confidence * 100)}%
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                {keptBy ? (
+                  <>
+                    {reason === "merged" ? "Merged into " : "Lost to "}
+                    <span className={categoryColors[keptBy.type].text}>
+                      {keptBy.type} “{keptBy.value}”
+                    </span>
+                    {" "}({keptBy.detectorId} · priority {keptBy.priority} · {Math.round(keptBy.confidence * 100)}%)
+                  </>
+                ) : (
+                  "Kept by the allowlist"
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,53 @@
+import { NAME_LOCALE_LABELS, type NameGender, type NameLocale } from "@/data/names";
+import { resolveNameProfile, type NameProfile } from "@/lib/name-profile";
+import { DetectedEntity } from "@/lib/text-processor";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface NameProfileControlsProps {
+  entity: DetectedEntity;
+  onChange: (value: string, profile: NameProfile) => void;
+}
+
+// Gender and culture the substitute for a full name was picked to match, for when the guess is wrong
+export function NameProfileControls({ entity, onChange }: NameProfileControlsProps) {
+  const profile = entity.profile ?? resolveNameProfile(entity.value);
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span>Substitute matches</span>
+      <Select
+        value={profile.gender ?? ""}
+        onValueChange={(gender) => onChange(entity.value, { gender: gender as NameGender })}
+      >
+        <SelectTrigger className="h-7 w-[110px] text-xs">
+          <SelectValue placeholder="Any gender" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="female">Female</SelectItem>
+          <SelectItem value="male">Male</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select
+        value={profile.culture ?? ""}
+        onValueChange={(culture) => onChange(entity.value, { culture: culture as NameLocale })}
+      >
+        <SelectTrigger className="h-7 w-[130px] text-xs">
+          <SelectValue placeholder="Any origin" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(NAME_LOCALE_LABELS).map(([culture, label]) => (
+            <SelectItem key={culture} value={culture}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useRef, useState, type MouseEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Copy, EyeOff, Shield } from "lucide-react";
+import { DetectedEntity, SensitiveDataType, parseToken } from "@/lib/text-processor";
+import { findOccurrences } from "@/lib/redaction-edits";
+import { categoryColors } from "@/constants/step-processor";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Segment =
+  | { kind: "text"; start: number; value: string }
+  | { kind: "entity"; entity: DetectedEntity };
+
+// Same overlap rule as maskText: a span reaching into one already shown is skipped
+const toSegments = (text: string, entities: DetectedEntity[]): Segment[] => {
+  const segments: Segment[] = [];
+  let lastIndex = 0;
+
+  for (const entity of [...entities].sort((a, b) => a.index - b.index)) {
+    if (entity.index < lastIndex) continue;
+    if (lastIndex < entity.index) {
+      segments.push({ kind: "text", start: lastIndex, value: text.slice(lastIndex, entity.index) });
+    }
+    segments.push({ kind: "entity", entity });
+    lastIndex = entity.index + entity.value.length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ kind: "text", start: lastIndex, value: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+// Offset in the original text of a selection end, when it falls inside an unredacted stretch
+const textOffset = (node: Node, offset: number): number | null => {
+  if (node.nodeType !== Node.TEXT_NODE) return null;
+  const start = node.parentElement?.closest<HTMLElement>("[data-offset]")?.dataset.offset;
+  return start === undefined ? null : Number(start) + offset;
+};
+
+interface PendingSelection {
+  start: number;
+  end: number;
+  // Position of the selection inside the preview, for anchoring the popover
+  box: { top: number; left: number; width: number; height: number };
+}
+
+interface RedactablePreviewProps {
+  text: string;
+  entities: DetectedEntity[];
+  onAdd: (value: string, type: SensitiveDataType, index?: number) => boolean;
+  onRemove: (value: string, index?: number) => void;
+  onUpdateSubstitute: (value: string, substitute: string, index?: number) => string | null;
+}
+
+export function RedactablePreview({ text, entities, onAdd, onRemove, onUpdateSubstitute }: RedactablePreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<PendingSelection | null>(null);
+  const [selectionType, setSelectionType] = useState<SensitiveDataType>("name");
+  const [applyToAll, setApplyToAll] = useState(true);
+
+  const handleMouseUp = (event: MouseEvent) => {
+    const container = containerRef.current;
+    // Events from the popovers bubble here through their portals
+    if (!container || !container.contains(event.target as Node)) return;
+    const domSelection = window.getSelection();
+    if (!domSelection || domSelection.isCollapsed || domSelection.rangeCount === 0) return;
+
+    const range = domSelection.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) return;
+
+    const from = textOffset(range.startContainer, range.startOffset);
+    const to = textOffset(range.endContainer, range.endOffset);
+    if (from === null || to === null) return;
+
+    let start = Math.min(from, to);
+    let end = Math.max(from, to);
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (start === end) return;
+    // Selections running across a redaction are ambiguous; edit that redaction instead
+    if (entities.some(entity => start < entity.index + entity.value.length && entity.index < end)) return;
+
+    const rect = range.getBoundingClientRect();
+    const bounds = container.getBoundingClientRect();
+    setSelection({
+      start,
+      end,
+      box: {
+        top: rect.top - bounds.top,
+        left: rect.left - bounds.left,
+        width: rect.width,
+        height: rect.height,
+      },
+    });
+    setApplyToAll(true);
+  };
+
+  const closeSelection = () => {
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleRedactSelection = () => {
+    if (!selection) return;
+    const value = text.slice(selection.start, selection.end);
+    onAdd(value, selectionType, applyToAll ? undefined : selection.start);
+    closeSelection();
+  };
+
+  const selectedValue = selection ? text.slice(selection.start, selection.end) : "";
+  const selectedCount = selection ? findOccurrences(text, selectedValue).length : 0;
+
+  return (
+    <div ref={containerRef} className="relative" onMouseUp={handleMouseUp}>
+      {toSegments(text, entities).map(segment =>
+        segment.kind === "text" ? (
+          <span key={`text-${segment.start}`} data-offset={segment.start}>
+            {segment.value}
+          </span>
+        ) : (
+          <RedactedSpan
+            key={`entity-${segment.entity.index}`}
+            entity={segment.entity}
+            occurrences={entities.filter(other => other.value === segment.entity.value).length}
+            onRemove={onRemove}
+            onUpdateSubstitute={onUpdateSubstitute}
+          />
+        )
+      )}
+
+      <Popover open={selection !== null} onOpenChange={(open) => !open && closeSelection()}>
+        <PopoverAnchor asChild>
+          <span
+            className="absolute pointer-events-none"
+            style={selection?.box}
+          />
+        </PopoverAnchor>
+        <PopoverContent className="w-72 space-y-3 font-sans">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Redact</Label>
+            <code className="block px-2 py-1 bg-muted rounded text-xs truncate" title={selectedValue}>
+              {selectedValue}
+            </code>
+          </div>
+          <Select
+            value={selectionType}
+            onValueChange={(value) => setSelectionType(value as SensitiveDataType)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(categoryColors).map((type) => (
+                <SelectItem key={type} value={type}>
+                  <div className="flex items-center gap-2">
+                    <span>{categoryColors[type as SensitiveDataType].icon}</span>
+                    <span className="capitalize">{type}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedCount > 1 && (
+            <div className="flex items-center gap-2">
+              <Switch id="redact-all" checked={applyToAll} onCheckedChange={setApplyToAll} />
+              <Label htmlFor="redact-all" className="text-xs font-normal">
+                All {selectedCount} occurrences
+              </Label>
+            </div>
+          )}
+          <Button size="sm" className="w-full" onClick={handleRedactSelection}>
+            <Shield className="mr-2 h-4 w-4" />
+            Redact
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+interface RedactedSpanProps {
+  entity: DetectedEntity;
+  // How many redactions share this original value
+  occurrences: number;
+  onRemove: RedactablePreviewProps["onRemove"];
+  onUpdateSubstitute: RedactablePreviewProps["onUpdateSubstitute"];
+}
+
+function RedactedSpan({ entity, occurrences, onRemove, onUpdateSubstitute }: RedactedSpanProps) {
+  const [open, setOpen] = useState(false);
+  const [substitute, setSubstitute] = useState(entity.substitute);
+  const [applyToAll, setApplyToAll] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const category = categoryColors[entity.type] || categoryColors.custom;
+  const scope = applyToAll ? undefined : entity.index;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setSubstitute(entity.substitute);
+      setApplyToAll(true);
+      setError(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (substitute !== entity.substitute) {
+      const message = onUpdateSubstitute(entity.value, substitute, scope);
+      if (message) {
+        setError(message);
+        return;
+      }
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <span
+          className={`px-1.5 py-0.5 rounded cursor-pointer transition-colors ${category.bg} ${category.text} hover:opacity-90 ${
+            parseToken(entity.substitute) ? "font-mono text-xs" : ""
+          }`}
+        >
+          {category.icon} {entity.substitute || <span className="italic line-through">{entity.value}</span>}
+        </span>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3 font-sans">
+        <div className="font-semibold text-sm">{entity.type.toUpperCase()}</div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">Original:</span>
+          <code className="px-2 py-1 bg-muted rounded text-xs truncate" title={entity.value}>
+            {entity.value}
+          </code>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={async () => {
+              try {
+                await navigator.clipboard.writeText(entity.value);
+                toast({
+                  title: "Copied to clipboard",
+                  duration: 2000,
+                });
+              } catch (err) {
+                toast({
+                  title: "❗ Failed to copy",
+                  description: "The browser did not allow access to the clipboard.",
+                  variant: "destructive",
+                  duration: 3000,
+                });
+              }
+            }}
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`substitute-${entity.index}`} className="text-xs text-muted-foreground">
+            Substitute
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={`substitute-${entity.index}`}
+              value={substitute}
+              onChange={(e) => {
+                setSubstitute(e.target.value);
+                setError(null);
+              }}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              className="text-xs"
+            />
+            <Button size="sm" onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+        {occurrences > 1 && (
+          <div className="flex items-center gap-2">
+            <Switch id={`scope-${entity.index}`} checked={applyToAll} onCheckedChange={setApplyToAll} />
+            <Label htmlFor={`scope-${entity.index}`} className="text-xs font-normal">
+              Apply to all {occurrences} occurrences
+            </Label>
+          </div>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full hover:bg-destructive/10 hover:text-destructive"
+          onClick={() => {
+            onRemove(entity.value, scope);
+            setOpen(false);
+          }}
+        >
+          <EyeOff className="mr-2 h-4 w-4" />
+          Un-redact
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -3,9 +3,11 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ChevronDown, ChevronRight, Plus, X, Edit2, Check } from "lucide-react";
-import { DetectedEntity, SensitiveDataType } from "@/lib/text-processor";
+import { ChevronDown, ChevronRight, Plus, X, Edit2, Check, ShieldOff } from "lucide-react";
+import { DetectedEntity, SensitiveDataType, isRestorable } from "@/lib/text-processor";
 import { categoryColors } from "@/constants/step-processor";
+import type { NameProfile } from "@/lib/name-profile";
+import { NameProfileControls } from "./NameProfileControls";
 import {
   Dialog,
   DialogContent,
@@ -27,33 +29,63 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { useToast } from "@/components/ui/use-toast";
 
 interface RedactedItemsListProps {
   entities: DetectedEntity[];
   maskedText: string;
+  onAllow?: (entity: DetectedEntity) => void;
+  onAdd: (value: string, type: SensitiveDataType) => boolean;
+  onRemove: (value: string) => void;
+  onUpdateSubstitute: (value: string, substitute: string) => string | null;
+  onChangeNameProfile?: (value: string, profile: NameProfile) => void;
 }
 
-export function RedactedItemsList({ entities, maskedText }: RedactedItemsListProps) {
+export function RedactedItemsList({
+  entities,
+  maskedText,
+  onAllow,
+  onAdd,
+  onRemove,
+  onUpdateSubstitute,
+  onChangeNameProfile,
+}: RedactedItemsListProps) {
   const [manualValue, setManualValue] = useState("");
-  const [manualType, setManualType] = useState<SensitiveDataType | "custom">("name");
+  const [manualType, setManualType] = useState<SensitiveDataType>("name");
+  const [manualError, setManualError] = useState<string | null>(null);
+  const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [editStates, setEditStates] = useState<Record<string, boolean>>({});
   const [editValues, setEditValues] = useState<Record<string, string>>({});
+  const [editErrors, setEditErrors] = useState<Record<string, string | null>>({});
   const [openCategory, setOpenCategory] = useState<string | null>(null);
-  const { toast } = useToast();
+
+  const handleAdd = () => {
+    if (!manualValue) {
+      setManualError("Enter the text to redact.");
+      return;
+    }
+    if (!onAdd(manualValue, manualType)) {
+      setManualError(`"${manualValue}" is not in the text, or every occurrence is already redacted.`);
+      return;
+    }
+    setManualValue("");
+    setManualError(null);
+    setAddDialogOpen(false);
+  };
 
   const handleEdit = (original: string) => {
     setEditStates(prev => ({ ...prev, [original]: true }));
     setEditValues(prev => ({ ...prev, [original]: entities.find(m => m.value === original)?.substitute || '' }));
+    setEditErrors(prev => ({ ...prev, [original]: null }));
   };
 
   const handleSave = (original: string) => {
     const newValue = editValues[original];
-    if (newValue && newValue !== entities.find(m => m.value === original)?.substitute) {
-      toast({
-        title: "Substitution updated",
-        description: `Updated replacement for "${original}"`,
-      });
+    if (newValue !== entities.find(m => m.value === original)?.substitute) {
+      const error = onUpdateSubstitute(original, newValue);
+      if (error) {
+        setEditErrors(prev => ({ ...prev, [original]: error }));
+        return;
+      }
     }
     setEditStates(prev => ({ ...prev, [original]: false }));
   };
@@ -78,7 +110,13 @@ export function RedactedItemsList({ entities, maskedText }: RedactedItemsListPro
       <CollapsibleContent>
         <div className="p-4 space-y-4">
           {/* Add Custom Redaction Dialog */}
-          <Dialog>
+          <Dialog
+            open={addDialogOpen}
+            onOpenChange={(open) => {
+              setAddDialogOpen(open);
+              setManualError(null);
+            }}
+          >
             <DialogTrigger asChild>
               <Button 
                 variant="outline" 
@@ -92,7 +130,7 @@ export function RedactedItemsList({ entities, maskedText }: RedactedItemsListPro
               <DialogHeader>
                 <DialogTitle>Add Custom Redaction</DialogTitle>
                 <DialogDescription>
-                  Enter the text you want to redact and select its category.
+                  Enter the text you want to redact and select its category. Every occurrence in the text is masked.
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4">
@@ -100,15 +138,21 @@ export function RedactedItemsList({ entities, maskedText }: RedactedItemsListPro
                   <Label>Text to Redact</Label>
                   <Input
                     value={manualValue}
-                    onChange={(e) => setManualValue(e.target.value)}
+                    onChange={(e) => {
+                      setManualValue(e.target.value);
+                      setManualError(null);
+                    }}
                     placeholder="Enter text to redact..."
                   />
+                  {manualError && (
+                    <p className="text-sm text-red-600">{manualError}</p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label>Category</Label>
                   <Select
                     value={manualType}
-                    onValueChange={(value) => setManualType(value as SensitiveDataType | "custom")}
+                    onValueChange={(value) => setManualType(value as SensitiveDataType)}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -127,7 +171,7 @@ export function RedactedItemsList({ entities, maskedText }: RedactedItemsListPro
                 </div>
               </div>
               <DialogFooter>
-                <Button onClick={() => {}}>
+                <Button onClick={handleAdd}>
                   Add Entry
                 </Button>
               </DialogFooter>
@@ -163,69 +207,97 @@ export function RedactedItemsList({ entities, maskedText }: RedactedItemsListPro
                       {items.map((item, idx) => (
                         <div 
                           key={idx} 
-                          className="flex items-center gap-2 p-2 bg-white/50 rounded-lg hover:bg-white/80 transition-colors"
+                          className="p-2 space-y-2 bg-white/50 rounded-lg hover:bg-white/80 transition-colors"
                         >
-                          <div className="flex-1 grid grid-cols-[1fr,auto,1fr] items-center gap-4">
-                            <div className="flex flex-col space-y-1">
-                              <span className="text-xs text-muted-foreground">Original</span>
-                              <code className="p-1.5 bg-muted/50 rounded text-xs truncate" title={item.value}>
-                                {item.value}
-                              </code>
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 grid grid-cols-[1fr,auto,1fr] items-center gap-4">
+                              <div className="flex flex-col space-y-1">
+                                <span className="text-xs text-muted-foreground">
+                                  Original
+                                  {item.confidence !== undefined && ` · ${Math.round(item.confidence * 100)}% confidence`}
+                                </span>
+                                <code className="p-1.5 bg-muted/50 rounded text-xs truncate" title={item.value}>
+                                  {item.value}
+                                </code>
+                              </div>
+                              <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                              <div className="flex flex-col space-y-1">
+                                <span className="text-xs text-muted-foreground">
+                                  Placeholder
+                                  {!isRestorable(item) && <span className="text-orange-700"> · irreversible</span>}
+                                  {item.mode === 'hash' && <span className="text-yellow-700"> · restorable this session only</span>}
+                                </span>
+                                {editStates[item.value] ? (
+                                  <>
+                                    <Input
+                                      value={editValues[item.value] ?? item.substitute}
+                                      onChange={(e) => setEditValues(prev => ({ ...prev, [item.value]: e.target.value }))}
+                                      className="text-xs"
+                                    />
+                                    {editErrors[item.value] && (
+                                      <span className="text-xs text-red-600">{editErrors[item.value]}</span>
+                                    )}
+                                  </>
+                                ) : (
+                                  <code className="p-1.5 bg-muted/50 rounded text-xs truncate">
+                                    {item.substitute || <span className="italic text-muted-foreground">removed</span>}
+                                  </code>
+                                )}
+                              </div>
                             </div>
-                            <ChevronRight className="h-3 w-3 text-muted-foreground" />
-                            <div className="flex flex-col space-y-1">
-                              <span className="text-xs text-muted-foreground">Placeholder</span>
+                            <div className="flex items-center gap-2">
                               {editStates[item.value] ? (
-                                <Input
-                                  value={editValues[item.value] || item.substitute}
-                                  onChange={(e) => setEditValues(prev => ({ ...prev, [item.value]: e.target.value }))}
-                                  className="text-xs"
-                                />
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setEditStates(prev => ({ ...prev, [item.value]: false }))}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="default"
+                                    size="sm"
+                                    onClick={() => handleSave(item.value)}
+                                  >
+                                    <Check className="h-4 w-4" />
+                                  </Button>
+                                </>
                               ) : (
-                                <code className="p-1.5 bg-muted/50 rounded text-xs truncate">
-                                  {item.substitute}
-                                </code>
+                                <>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleEdit(item.value)}
+                                  >
+                                    <Edit2 className="h-4 w-4" />
+                                  </Button>
+                                  {onAllow && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Never redact this value"
+                                      onClick={() => onAllow(item)}
+                                    >
+                                      <ShieldOff className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Un-redact every occurrence"
+                                    onClick={() => onRemove(item.value)}
+                                    className="hover:bg-destructive/10 hover:text-destructive"
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </>
                               )}
                             </div>
                           </div>
-                          <div className="flex items-center gap-2">
-                            {editStates[item.value] ? (
-                              <>
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => setEditStates(prev => ({ ...prev, [item.value]: false }))}
-                                >
-                                  <X className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  variant="default"
-                                  size="sm"
-                                  onClick={() => handleSave(item.value)}
-                                >
-                                  <Check className="h-4 w-4" />
-                                </Button>
-                              </>
-                            ) : (
-                              <>
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => handleEdit(item.value)}
-                                >
-                                  <Edit2 className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => {}}
-                                  className="hover:bg-destructive/10 hover:text-destructive"
-                                >
-                                  <X className="h-4 w-4" />
-                                </Button>
-                              </>
-                            )}
-                          </div>
+                          {onChangeNameProfile && item.type === 'name' && !item.linkedTo && (item.mode ?? 'fake') === 'fake' && (
+                            <NameProfileControls entity={item} onChange={onChangeNameProfile} />
+                          )}
                         </div>
                       ))}
                     </div>
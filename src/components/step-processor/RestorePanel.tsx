@@ -0,0 +1,162 @@
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy, Download, Wand2 } from "lucide-react";
+import {
+  DetectedEntity,
+  ValidationResult,
+  isRestorable,
+  restoreTextWithSpans,
+} from "@/lib/text-processor";
+import { hasWatermark } from "@/lib/watermark";
+import { categoryColors } from "@/constants/step-processor";
+
+interface RestorePanelProps {
+  restoreInput: string;
+  setRestoreInput: (text: string) => void;
+  entities: DetectedEntity[];
+  validationResult: ValidationResult;
+  // The masked text carried watermarks, so their absence in the response is worth pointing out
+  watermarked: boolean;
+  handleApplyFixes: () => void;
+  handleCopyRestored: () => void;
+  handleDownloadRestored: () => void;
+}
+
+export function RestorePanel({
+  restoreInput,
+  setRestoreInput,
+  entities,
+  validationResult,
+  watermarked,
+  handleApplyFixes,
+  handleCopyRestored,
+  handleDownloadRestored,
+}: RestorePanelProps) {
+  const { text: restoredText, spans } = restoreTextWithSpans(restoreInput, entities);
+  const hasInput = restoreInput.trim().length > 0;
+
+  const renderRestoredPreview = (): JSX.Element => {
+    let lastIndex = 0;
+    const elements: JSX.Element[] = [];
+
+    spans.forEach((span, idx) => {
+      if (lastIndex < span.index) {
+        elements.push(
+          <span key={`text-${idx}`}>
+            {restoredText.slice(lastIndex, span.index)}
+          </span>
+        );
+      }
+
+      const category = categoryColors[span.entity.type] || categoryColors.custom;
+      elements.push(
+        <span
+          key={`restored-${idx}`}
+          className={`px-1 rounded ${category.bg} ${category.text}`}
+          title={`Restored from "${span.entity.substitute}"`}
+        >
+          {restoredText.slice(span.index, span.index + span.length)}
+        </span>
+      );
+
+      lastIndex = span.index + span.length;
+    });
+
+    if (lastIndex < restoredText.length) {
+      elements.push(
+        <span key="text-end">{restoredText.slice(lastIndex)}</span>
+      );
+    }
+
+    return <>{elements}</>;
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <Textarea
+        value={restoreInput}
+        onChange={(e) => setRestoreInput(e.target.value)}
+        placeholder="Paste the AI's response here to restore the original data..."
+        className="min-h-[160px] font-mono text-sm transition-all duration-200 focus:ring-2 focus:ring-primary"
+      />
+
+      {hasInput && watermarked && !hasWatermark(restoreInput) && (
+        <p className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-xs text-yellow-700">
+          The watermarks did not survive: the AI tool or the clipboard stripped zero-width characters.
+          Restore falls back to matching the substitutes as written, so reworded ones may need the suggested fixes.
+        </p>
+      )}
+
+      {hasInput && (
+        <div className={`p-4 rounded-lg space-y-2 ${
+          validationResult.isValid
+            ? 'bg-green-50 border border-green-200'
+            : 'bg-yellow-50 border border-yellow-200'
+        }`}>
+          <div className="flex items-center gap-2">
+            <span>{validationResult.isValid ? '✅' : '❗'}</span>
+            <p className={`text-sm font-medium ${
+              validationResult.isValid ? 'text-green-700' : 'text-yellow-700'
+            }`}>
+              {validationResult.isValid
+                ? `All ${new Set(entities.filter(isRestorable).map(e => e.substitute)).size} placeholders found.`
+                : "Some placeholders are missing or were changed by the AI."}
+            </p>
+          </div>
+
+          {validationResult.suggestedFixes.length > 0 && (
+            <div className="pl-6 space-y-2">
+              <p className="text-sm font-medium text-yellow-700">Altered placeholders:</p>
+              <ul className="space-y-1">
+                {validationResult.suggestedFixes.map((fix, idx) => (
+                  <li key={idx} className="text-xs font-mono">
+                    <span className="line-through text-muted-foreground">{fix.modified}</span>
+                    {" → "}
+                    <span>{fix.original}</span>
+                  </li>
+                ))}
+              </ul>
+              <Button variant="outline" size="sm" onClick={handleApplyFixes}>
+                <Wand2 className="mr-2 h-4 w-4" />
+                Apply Suggested Fixes
+              </Button>
+            </div>
+          )}
+
+          {validationResult.missingPlaceholders.length > 0 && (
+            <div className="pl-6 space-y-1">
+              <p className="text-sm font-medium text-yellow-700">Missing placeholders:</p>
+              <div className="flex flex-wrap gap-1.5">
+                {validationResult.missingPlaceholders.map((placeholder, idx) => (
+                  <code key={idx} className="px-1.5 py-0.5 bg-white/60 rounded text-xs">
+                    {placeholder}
+                  </code>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                These values will stay as placeholders in the restored text.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {hasInput && (
+        <div className="relative p-4 border rounded-lg bg-white shadow-sm">
+          <div className="absolute top-4 right-4 space-x-2">
+            <Button variant="ghost" size="sm" onClick={handleCopyRestored} title="Copy restored text">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDownloadRestored} title="Download restored text">
+              <Download className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="font-mono text-sm whitespace-pre-wrap max-h-[300px] overflow-y-auto scrollbar-hide pr-20">
+            {renderRestoredPreview()}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
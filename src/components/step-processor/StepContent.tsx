@@ -3,42 +3,89 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Eye, EyeOff, Copy, RotateCcw, ChevronLeft, ChevronRight, Shield } from "lucide-react";
-import { DetectedEntity } from "@/lib/text-processor";
+import { DetectedEntity, DetectionOptions, SensitiveDataType, ValidationResult } from "@/lib/text-processor";
 import { RedactedItemsList } from "./RedactedItemsList";
+import { RedactablePreview } from "./RedactablePreview";
 import { ValidationWarnings } from "./ValidationWarnings";
+import { RestorePanel } from "./RestorePanel";
+import { DetectionSettings } from "./DetectionSettings";
+import { SubstitutionSettings } from "./SubstitutionSettings";
+import { CustomRulesEditor } from "./CustomRulesEditor";
+import { CustomRule } from "@/lib/custom-rules";
+import { AllowlistEditor } from "./AllowlistEditor";
+import { AllowlistEntry } from "@/lib/allowlist";
+import type { NameProfile } from "@/lib/name-profile";
+import { DiscardedCandidatesPanel } from "./DiscardedCandidatesPanel";
+import { DiscardedCandidate } from "@/lib/span-resolution";
 
 interface StepContentProps {
   currentStep: number;
   inputText: string;
   setInputText: (text: string) => void;
+  detectionOptions: DetectionOptions;
+  setDetectionOptions: (options: DetectionOptions) => void;
+  customRules: CustomRule[];
+  setCustomRules: (rules: CustomRule[]) => void;
+  allowlist: AllowlistEntry[];
+  setAllowlist: (entries: AllowlistEntry[]) => void;
+  handleAllowEntity: (entity: DetectedEntity) => void;
+  handleAddRedaction: (value: string, type: SensitiveDataType, index?: number) => boolean;
+  handleRemoveRedaction: (value: string, index?: number) => void;
+  handleUpdateSubstitute: (value: string, substitute: string, index?: number) => string | null;
+  handleChangeNameProfile: (value: string, profile: NameProfile) => void;
   maskedText: string;
+  maskedWatermarked: boolean;
   entities: DetectedEntity[];
+  discarded: DiscardedCandidate[];
+  restoreInput: string;
+  setRestoreInput: (text: string) => void;
+  validationResult: ValidationResult;
   showOriginal: boolean;
   setShowOriginal: (show: boolean) => void;
   handleDetectAndMask: () => void;
   handleCopy: () => void;
+  handleApplyFixes: () => void;
+  handleCopyRestored: () => void;
+  handleDownloadRestored: () => void;
   handleReset: () => void;
   handleBack: () => void;
   handleNext: () => void;
   isStepValid: (step: number) => boolean;
-  formatPlaceholderDisplay: (text: string, entities: DetectedEntity[]) => JSX.Element;
 }
 
 export function StepContent({
   currentStep,
   inputText,
   setInputText,
+  detectionOptions,
+  setDetectionOptions,
+  customRules,
+  setCustomRules,
+  allowlist,
+  setAllowlist,
+  handleAllowEntity,
+  handleAddRedaction,
+  handleRemoveRedaction,
+  handleUpdateSubstitute,
+  handleChangeNameProfile,
   maskedText,
+  maskedWatermarked,
   entities,
+  discarded,
+  restoreInput,
+  setRestoreInput,
+  validationResult,
   showOriginal,
   setShowOriginal,
   handleDetectAndMask,
   handleCopy,
+  handleApplyFixes,
+  handleCopyRestored,
+  handleDownloadRestored,
   handleReset,
   handleBack,
   handleNext,
   isStepValid,
-  formatPlaceholderDisplay,
 }: StepContentProps) {
   switch (currentStep) {
     case 0:
@@ -47,7 +94,7 @@ export function StepContent({
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-800 flex items-center">
               <Shield className="h-4 w-4 mr-2" />
-              Enter your text below. Names, emails, and phone numbers will be automatically detected and redacted.
+              Enter your text below. Names, contact details, SSNs, birth dates and account numbers will be automatically detected and redacted.
               You can add more custom redactions in the next step.
             </p>
           </div>
@@ -58,14 +105,33 @@ export function StepContent({
             className="min-h-[200px] font-mono text-sm transition-all duration-200 focus:ring-2 focus:ring-primary"
           />
           <div className="flex justify-between items-center">
-            <Button 
-              variant="outline" 
-              onClick={handleReset}
-              className="transition-colors duration-200"
-            >
-              <RotateCcw className="mr-2 h-4 w-4" />
-              Reset
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button 
+                variant="outline" 
+                onClick={handleReset}
+                className="transition-colors duration-200"
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reset
+              </Button>
+              <DetectionSettings
+                options={detectionOptions}
+                setOptions={setDetectionOptions}
+              />
+              <SubstitutionSettings
+                options={detectionOptions}
+                setOptions={setDetectionOptions}
+              />
+              <CustomRulesEditor
+                rules={customRules}
+                setRules={setCustomRules}
+                inputText={inputText}
+              />
+              <AllowlistEditor
+                entries={allowlist}
+                setEntries={setAllowlist}
+              />
+            </div>
             <Button 
               onClick={handleDetectAndMask}
               disabled={!inputText.trim()}
@@ -105,17 +171,35 @@ export function StepContent({
                 </div>
               ) : (
                 <div className="animate-fade-in">
-                  {formatPlaceholderDisplay(maskedText, entities)}
+                  <RedactablePreview
+                    text={inputText}
+                    entities={entities}
+                    onAdd={handleAddRedaction}
+                    onRemove={handleRemoveRedaction}
+                    onUpdateSubstitute={handleUpdateSubstitute}
+                  />
                 </div>
               )}
             </div>
+            {!showOriginal && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                Select text to redact it, or click a substitute to change or un-redact it.
+              </p>
+            )}
           </div>
 
           <RedactedItemsList
             entities={entities}
             maskedText={maskedText}
+            onAllow={handleAllowEntity}
+            onAdd={handleAddRedaction}
+            onRemove={handleRemoveRedaction}
+            onUpdateSubstitute={handleUpdateSubstitute}
+            onChangeNameProfile={handleChangeNameProfile}
           />
 
+          <DiscardedCandidatesPanel discarded={discarded} />
+
           <div className="flex justify-between items-center">
             <Button variant="outline" onClick={handleBack}>
               <ChevronLeft className="mr-2 h-4 w-4" />
@@ -158,6 +242,32 @@ export function StepContent({
         </div>
       );
 
+    case 3:
+      return (
+        <div className="space-y-4">
+          <RestorePanel
+            restoreInput={restoreInput}
+            setRestoreInput={setRestoreInput}
+            entities={entities}
+            validationResult={validationResult}
+            watermarked={maskedWatermarked}
+            handleApplyFixes={handleApplyFixes}
+            handleCopyRestored={handleCopyRestored}
+            handleDownloadRestored={handleDownloadRestored}
+          />
+          <div className="flex justify-between items-center">
+            <Button variant="outline" onClick={handleBack}>
+              <ChevronLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+            <Button variant="outline" onClick={handleReset}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Start Over
+            </Button>
+          </div>
+        </div>
+      );
+
     default:
       return null;
   }
@@ -0,0 +1,185 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Clock, Lock, Replace, Undo2 } from "lucide-react";
+import {
+  DetectionOptions,
+  MAX_MASK_KEEP_LAST,
+  RESTORABLE_MODES,
+  SHIFTABLE_TYPES,
+  SensitiveDataType,
+  SubstitutionMode,
+  clampMaskKeepLast,
+  formatToken,
+} from "@/lib/text-processor";
+import type { DateShiftGranularity } from "@/lib/date-shift";
+import { categoryColors } from "@/constants/step-processor";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const substitutionModeLabels: Record<SubstitutionMode, string> = {
+  fake: "Fake data",
+  token: "Token",
+  hash: "Hash",
+  mask: "Mask",
+  generalize: "Generalise",
+  drop: "Remove",
+  shift: "Shift dates",
+};
+
+const dateShiftGranularityLabels: Record<DateShiftGranularity, string> = {
+  day: "By days",
+  week: "By whole weeks (keeps weekdays)",
+  month: "By whole months (keeps day of month)",
+};
+
+// Hashes are salted per session (or keyed), so only the session that made them can map them back
+function RestorableHint({ mode }: { mode: SubstitutionMode }) {
+  if (mode === "hash") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-yellow-700">
+        <Clock className="h-3 w-3" />
+        This session only
+      </span>
+    );
+  }
+  return RESTORABLE_MODES.has(mode) ? (
+    <span className="flex items-center gap-1 text-xs text-green-700">
+      <Undo2 className="h-3 w-3" />
+      Restorable
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-xs text-orange-700">
+      <Lock className="h-3 w-3" />
+      Irreversible
+    </span>
+  );
+}
+
+interface SubstitutionSettingsProps {
+  options: DetectionOptions;
+  setOptions: (options: DetectionOptions) => void;
+}
+
+export function SubstitutionSettings({ options, setOptions }: SubstitutionSettingsProps) {
+  const update = (type: SensitiveDataType, mode: SubstitutionMode) => {
+    setOptions({ ...options, substitutionModes: { ...options.substitutionModes, [type]: mode } });
+  };
+  const masking = Object.values(options.substitutionModes).includes("mask");
+  const shifting = Object.values(options.substitutionModes).includes("shift");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="transition-colors duration-200">
+          <Replace className="mr-2 h-4 w-4" />
+          Substitutes
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-4">
+        <div className="space-y-1">
+          <h4 className="font-medium leading-none">Substitutes</h4>
+          <p className="text-xs text-muted-foreground">
+            Replace each category with realistic fake data or numbered tokens like {formatToken("name", 1)}, which
+            are put back when restoring. One-way hashes are only put back in the session that made them. Masks,
+            descriptions ("a city in Ohio", "age 40–49") and removal hide the value for good.
+          </p>
+        </div>
+        <div className="space-y-2">
+          {(Object.keys(categoryColors) as SensitiveDataType[]).map((type) => {
+            const mode = options.substitutionModes[type] ?? "fake";
+            return (
+              <div key={type} className="flex items-center justify-between gap-4">
+                <span className={`flex items-center gap-2 text-sm ${categoryColors[type].text}`}>
+                  <span>{categoryColors[type].icon}</span>
+                  <span className="capitalize">{type}</span>
+                </span>
+                <div className="flex items-center gap-2">
+                  <RestorableHint mode={mode} />
+                  <Select value={mode} onValueChange={(value) => update(type, value as SubstitutionMode)}>
+                    <SelectTrigger className="h-8 w-[150px] text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.entries(substitutionModeLabels) as [SubstitutionMode, string][])
+                        .filter(([value]) => value !== "shift" || SHIFTABLE_TYPES.has(type))
+                        .map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {value === "token" ? `${label} ${formatToken(type, 1)}` : label}
+                            {!RESTORABLE_MODES.has(value) && <Lock className="ml-1 inline h-3 w-3 text-orange-700" />}
+                            {value === "hash" && <Clock className="ml-1 inline h-3 w-3 text-yellow-700" />}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {masking && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="mask-keep-last">Characters left unmasked</Label>
+              <p className="text-xs text-muted-foreground">
+                Masked numbers keep their last characters, e.g. ***-**-1234.
+              </p>
+            </div>
+            <Input
+              id="mask-keep-last"
+              type="number"
+              min={0}
+              max={MAX_MASK_KEEP_LAST}
+              value={clampMaskKeepLast(options.maskKeepLast)}
+              onChange={(e) => setOptions({ ...options, maskKeepLast: clampMaskKeepLast(Number(e.target.value) || 0) })}
+              className="h-8 w-16 text-sm"
+            />
+          </div>
+        )}
+        {shifting && (
+          <div className="space-y-2">
+            <Label htmlFor="date-shift-granularity">Shift dates</Label>
+            <Select
+              value={options.dateShiftGranularity}
+              onValueChange={(value) => setOptions({ ...options, dateShiftGranularity: value as DateShiftGranularity })}
+            >
+              <SelectTrigger id="date-shift-granularity" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(dateShiftGranularityLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Every shifted date moves by the same random offset, so the time between them is kept. Shifting the
+              date category redacts all dates in the text.
+            </p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="date-shift-per-person">A different offset for each person</Label>
+              <Switch
+                id="date-shift-per-person"
+                checked={options.dateShiftPerPerson}
+                onCheckedChange={(checked) => setOptions({ ...options, dateShiftPerPerson: checked })}
+              />
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, FlaskConical } from "lucide-react";
+import { checkWatermarkRoundTrip, watermarkSubstitute, type WatermarkCheck } from "@/lib/watermark";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+const SAMPLE_NAME = "Michael Carter";
+const SAMPLE = `Please repeat this name exactly: ${watermarkSubstitute(SAMPLE_NAME, 1)}`;
+
+const resultMessages: Record<WatermarkCheck, { text: string; className: string }> = {
+  intact: {
+    text: "The watermark survived. Restore will find substitutes even if the AI rewrites them.",
+    className: "text-green-700",
+  },
+  stripped: {
+    text: "The watermark was stripped. This tool removes zero-width characters, so watermarking will not help here.",
+    className: "text-yellow-700",
+  },
+  missing: {
+    text: "The sample name is not in the pasted text. Paste the tool's full reply.",
+    className: "text-muted-foreground",
+  },
+};
+
+// Round trip through the user's AI tool: copy the sample there, paste the reply back, see whether the marks came through
+export function WatermarkTest() {
+  const [reply, setReply] = useState("");
+  const result = reply.trim() ? checkWatermarkRoundTrip(SAMPLE_NAME, reply) : null;
+  const { toast } = useToast();
+
+  const handleCopySample = async () => {
+    try {
+      await navigator.clipboard.writeText(SAMPLE);
+      toast({
+        title: "Sample copied",
+        description: "Paste it into your AI tool as is.",
+        duration: 3000,
+      });
+    } catch (err) {
+      toast({
+        title: "❗ Failed to copy",
+        description: "Select the sample and copy it by hand.",
+        variant: "destructive",
+        duration: 3000,
+      });
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={() => setReply("")}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FlaskConical className="mr-2 h-4 w-4" />
+          Test round trip
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Test the watermark</DialogTitle>
+          <DialogDescription>
+            Some tools strip invisible characters when text is pasted or answered. Send the sample to your AI tool
+            and paste its reply below.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <code className="flex-1 p-2 bg-muted rounded text-xs">{SAMPLE}</code>
+            <Button
+              variant="outline"
+              size="icon"
+              title="Copy sample"
+              onClick={handleCopySample}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="watermark-reply">Reply</Label>
+            <Textarea
+              id="watermark-reply"
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              placeholder="Paste the reply here..."
+              className="text-sm"
+            />
+          </div>
+          {result && (
+            <p className={`text-sm ${resultMessages[result].className}`}>{resultMessages[result].text}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
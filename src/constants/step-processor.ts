@@ -46,8 +46,11 @@ export const categoryColors: CategoryColors = {
   phone: { bg: "bg-blue-100", text: "text-blue-700", icon: "🟢" },
   address: { bg: "bg-yellow-100", text: "text-yellow-700", icon: "🟡" },
   dob: { bg: "bg-red-100", text: "text-red-700", icon: "🔴" },
+  date: { bg: "bg-rose-100", text: "text-rose-700", icon: "📅" },
   ssn: { bg: "bg-gray-100", text: "text-gray-700", icon: "⚪" },
   account: { bg: "bg-green-100", text: "text-green-700", icon: "🟣" },
   location: { bg: "bg-indigo-100", text: "text-indigo-700", icon: "📍" },
+  secret: { bg: "bg-slate-200", text: "text-slate-800", icon: "🔑" },
+  network: { bg: "bg-cyan-100", text: "text-cyan-700", icon: "🌐" },
   custom: { bg: "bg-pink-100", text: "text-pink-700", icon: "💫" },
 };
@@ -0,0 +1,34 @@
+// Offline domain lists for telling what kind of mailbox an email address belongs to.
+// Substitutes keep the kind, so a Gmail address stays a free-mail address and a university one stays academic.
+
+export type EmailDomainKind = 'webmail' | 'corporate' | 'education' | 'government';
+
+export const WEBMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+  'yahoo.com', 'ymail.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me',
+  'protonmail.com', 'gmx.com', 'gmx.de', 'gmx.net', 'web.de', 't-online.de', 'mail.com',
+  'zoho.com', 'yandex.ru', 'mail.ru', 'qq.com', '163.com', '126.com', 'naver.com',
+  'laposte.net', 'orange.fr', 'free.fr', 'libero.it', 'hotmail.co.uk', 'yahoo.co.uk',
+  'btinternet.com', 'yahoo.co.jp', 'hey.com', 'fastmail.com', 'tutanota.com',
+];
+
+// Suffixes under which domains belong to universities and schools
+export const EDUCATION_SUFFIXES = ['edu', 'ac.uk', 'edu.au', 'ac.jp', 'ac.in', 'ac.nz', 'ac.za', 'edu.cn', 'ac.kr', 'edu.br'];
+
+export const GOVERNMENT_SUFFIXES = ['gov', 'mil', 'gov.uk', 'gouv.fr', 'gov.au', 'gc.ca', 'gov.in', 'go.jp', 'bund.de', 'europa.eu'];
+
+// Free-mail providers used for webmail substitutes
+export const SUBSTITUTE_WEBMAIL_DOMAINS = ['gmail.com', 'outlook.com', 'yahoo.com', 'proton.me', 'icloud.com'];
+
+// Made-up organisation names; the original's public suffix is appended
+export const SUBSTITUTE_ORGANIZATIONS: Record<Exclude<EmailDomainKind, 'webmail'>, string[]> = {
+  corporate: ['northwind', 'contoso', 'fabrikam', 'litware', 'tailspin', 'wingtip', 'fourthcoffee', 'adatum', 'proseware', 'woodgrove'],
+  education: ['westbrook', 'hillcrest', 'lakemont', 'ashford', 'riverside', 'kingsbridge'],
+  government: ['agency', 'ministry', 'revenue', 'transport', 'health', 'records'],
+};
+
+// Shared mailboxes that identify a function rather than a person, kept as they are
+export const ROLE_MAILBOXES = new Set([
+  'info', 'contact', 'support', 'help', 'sales', 'admin', 'hello', 'office', 'hr', 'billing',
+  'accounts', 'noreply', 'no-reply', 'postmaster', 'webmaster', 'team', 'press', 'jobs', 'careers',
+]);
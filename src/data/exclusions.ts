@@ -0,0 +1,38 @@
+// Capitalised words that start or join phrases which look like names but are not
+export const NAME_EXCLUSIONS: ReadonlySet<string> = new Set([
+  // Months and Days
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+
+  // Companies and Brands
+  'Samsung', 'Apple', 'Google', 'Microsoft', 'Amazon', 'Facebook', 'Twitter', 'LinkedIn', 'Instagram',
+
+  // Street Types
+  'Street', 'Avenue', 'Road', 'Boulevard', 'Lane', 'Drive', 'Circle', 'Court', 'Way', 'Place',
+  'St', 'Ave', 'Rd', 'Blvd', 'Ln', 'Dr', 'Cir', 'Ct', 'Pl',
+
+  // Business Terms
+  'Inc', 'LLC', 'Corp', 'Corporation', 'Company', 'Limited', 'International', 'Industries',
+
+  // Locations and Institutions
+  'New', 'York', 'City', 'Los', 'Angeles', 'San', 'Francisco', 'Chicago', 'Boston', 'Seattle',
+  'North', 'South', 'East', 'West', 'Central', 'University', 'College', 'Institute', 'School',
+  'Medical', 'Hospital', 'Center', 'Department',
+
+  // Common Phrases and Terms
+  'Social', 'Security', 'Medicare', 'Medicaid', 'Administration', 'Government',
+  'There', 'That', 'This', 'Been', 'Done', 'Made', 'Corporate', 'Public', 'Private',
+  'Northwestern', 'Southern', 'Eastern', 'Western', 'National', 'International',
+
+  // Common Business Names
+  'Bean', 'Coffee', 'Cafe', 'Restaurant', 'Shop', 'Store', 'Market', 'Bank', 'Financial',
+
+  // States
+  'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut',
+  'Delaware', 'Florida', 'Georgia', 'Hawaii', 'Idaho', 'Illinois', 'Indiana', 'Iowa',
+  'Kansas', 'Kentucky', 'Louisiana', 'Maine', 'Maryland', 'Massachusetts', 'Michigan',
+  'Minnesota', 'Mississippi', 'Missouri', 'Montana', 'Nebraska', 'Nevada', 'Hampshire',
+  'Jersey', 'Mexico', 'Dakota', 'Ohio', 'Oklahoma', 'Oregon', 'Pennsylvania', 'Rhode',
+  'Island', 'Carolina', 'Tennessee', 'Texas', 'Utah', 'Vermont', 'Virginia', 'Washington',
+  'Wisconsin', 'Wyoming'
+]);
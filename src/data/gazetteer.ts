@@ -0,0 +1,394 @@
+// Offline gazetteer used for location detection and substitution.
+// Kept deliberately small: major cities, first-level regions and countries, plus postal code formats.
+
+export type PlaceLevel = 'city' | 'region' | 'country';
+
+export interface Country {
+  code: string;
+  name: string;
+  aliases?: string[];
+}
+
+export interface Region {
+  name: string;
+  country: string;
+  abbreviation?: string;
+}
+
+export type City = [name: string, region: string, country: string];
+
+export const COUNTRIES: Country[] = [
+  { code: 'AF', name: 'Afghanistan' },
+  { code: 'AL', name: 'Albania' },
+  { code: 'DZ', name: 'Algeria' },
+  { code: 'AR', name: 'Argentina' },
+  { code: 'AM', name: 'Armenia' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'AT', name: 'Austria' },
+  { code: 'AZ', name: 'Azerbaijan' },
+  { code: 'BD', name: 'Bangladesh' },
+  { code: 'BY', name: 'Belarus' },
+  { code: 'BE', name: 'Belgium' },
+  { code: 'BO', name: 'Bolivia' },
+  { code: 'BA', name: 'Bosnia and Herzegovina' },
+  { code: 'BR', name: 'Brazil' },
+  { code: 'BG', name: 'Bulgaria' },
+  { code: 'KH', name: 'Cambodia' },
+  { code: 'CM', name: 'Cameroon' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'CL', name: 'Chile' },
+  { code: 'CN', name: 'China' },
+  { code: 'CO', name: 'Colombia' },
+  { code: 'CR', name: 'Costa Rica' },
+  { code: 'HR', name: 'Croatia' },
+  { code: 'CU', name: 'Cuba' },
+  { code: 'CY', name: 'Cyprus' },
+  { code: 'CZ', name: 'Czech Republic', aliases: ['Czechia'] },
+  { code: 'DK', name: 'Denmark' },
+  { code: 'DO', name: 'Dominican Republic' },
+  { code: 'EC', name: 'Ecuador' },
+  { code: 'EG', name: 'Egypt' },
+  { code: 'SV', name: 'El Salvador' },
+  { code: 'EE', name: 'Estonia' },
+  { code: 'ET', name: 'Ethiopia' },
+  { code: 'FI', name: 'Finland' },
+  { code: 'FR', name: 'France' },
+  { code: 'GE', name: 'Georgia' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'GH', name: 'Ghana' },
+  { code: 'GR', name: 'Greece' },
+  { code: 'GT', name: 'Guatemala' },
+  { code: 'HN', name: 'Honduras' },
+  { code: 'HK', name: 'Hong Kong' },
+  { code: 'HU', name: 'Hungary' },
+  { code: 'IS', name: 'Iceland' },
+  { code: 'IN', name: 'India' },
+  { code: 'ID', name: 'Indonesia' },
+  { code: 'IR', name: 'Iran' },
+  { code: 'IQ', name: 'Iraq' },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'IL', name: 'Israel' },
+  { code: 'IT', name: 'Italy' },
+  { code: 'JM', name: 'Jamaica' },
+  { code: 'JP', name: 'Japan' },
+  { code: 'JO', name: 'Jordan' },
+  { code: 'KZ', name: 'Kazakhstan' },
+  { code: 'KE', name: 'Kenya' },
+  { code: 'KR', name: 'South Korea', aliases: ['Korea'] },
+  { code: 'KW', name: 'Kuwait' },
+  { code: 'LV', name: 'Latvia' },
+  { code: 'LB', name: 'Lebanon' },
+  { code: 'LT', name: 'Lithuania' },
+  { code: 'LU', name: 'Luxembourg' },
+  { code: 'MY', name: 'Malaysia' },
+  { code: 'MT', name: 'Malta' },
+  { code: 'MX', name: 'Mexico' },
+  { code: 'MD', name: 'Moldova' },
+  { code: 'MA', name: 'Morocco' },
+  { code: 'NP', name: 'Nepal' },
+  { code: 'NL', name: 'Netherlands', aliases: ['Holland'] },
+  { code: 'NZ', name: 'New Zealand' },
+  { code: 'NI', name: 'Nicaragua' },
+  { code: 'NG', name: 'Nigeria' },
+  { code: 'NO', name: 'Norway' },
+  { code: 'PK', name: 'Pakistan' },
+  { code: 'PA', name: 'Panama' },
+  { code: 'PY', name: 'Paraguay' },
+  { code: 'PE', name: 'Peru' },
+  { code: 'PH', name: 'Philippines' },
+  { code: 'PL', name: 'Poland' },
+  { code: 'PT', name: 'Portugal' },
+  { code: 'PR', name: 'Puerto Rico' },
+  { code: 'QA', name: 'Qatar' },
+  { code: 'RO', name: 'Romania' },
+  { code: 'RU', name: 'Russia' },
+  { code: 'SA', name: 'Saudi Arabia' },
+  { code: 'SN', name: 'Senegal' },
+  { code: 'RS', name: 'Serbia' },
+  { code: 'SG', name: 'Singapore' },
+  { code: 'SK', name: 'Slovakia' },
+  { code: 'SI', name: 'Slovenia' },
+  { code: 'ZA', name: 'South Africa' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'LK', name: 'Sri Lanka' },
+  { code: 'SE', name: 'Sweden' },
+  { code: 'CH', name: 'Switzerland' },
+  { code: 'SY', name: 'Syria' },
+  { code: 'TW', name: 'Taiwan' },
+  { code: 'TZ', name: 'Tanzania' },
+  { code: 'TH', name: 'Thailand' },
+  { code: 'TN', name: 'Tunisia' },
+  { code: 'TR', name: 'Turkey', aliases: ['Türkiye'] },
+  { code: 'UG', name: 'Uganda' },
+  { code: 'UA', name: 'Ukraine' },
+  { code: 'AE', name: 'United Arab Emirates', aliases: ['UAE'] },
+  { code: 'GB', name: 'United Kingdom', aliases: ['UK', 'U.K.', 'Great Britain', 'Britain'] },
+  { code: 'US', name: 'United States', aliases: ['USA', 'U.S.A.', 'United States of America'] },
+  { code: 'UY', name: 'Uruguay' },
+  { code: 'UZ', name: 'Uzbekistan' },
+  { code: 'VE', name: 'Venezuela' },
+  { code: 'VN', name: 'Vietnam' },
+  { code: 'YE', name: 'Yemen' },
+  { code: 'ZM', name: 'Zambia' },
+  { code: 'ZW', name: 'Zimbabwe' },
+];
+
+export const REGIONS: Region[] = [
+  // United States
+  { name: 'Alabama', country: 'US', abbreviation: 'AL' },
+  { name: 'Alaska', country: 'US', abbreviation: 'AK' },
+  { name: 'Arizona', country: 'US', abbreviation: 'AZ' },
+  { name: 'Arkansas', country: 'US', abbreviation: 'AR' },
+  { name: 'California', country: 'US', abbreviation: 'CA' },
+  { name: 'Colorado', country: 'US', abbreviation: 'CO' },
+  { name: 'Connecticut', country: 'US', abbreviation: 'CT' },
+  { name: 'Delaware', country: 'US', abbreviation: 'DE' },
+  { name: 'District of Columbia', country: 'US', abbreviation: 'DC' },
+  { name: 'Florida', country: 'US', abbreviation: 'FL' },
+  { name: 'Georgia', country: 'US', abbreviation: 'GA' },
+  { name: 'Hawaii', country: 'US', abbreviation: 'HI' },
+  { name: 'Idaho', country: 'US', abbreviation: 'ID' },
+  { name: 'Illinois', country: 'US', abbreviation: 'IL' },
+  { name: 'Indiana', country: 'US', abbreviation: 'IN' },
+  { name: 'Iowa', country: 'US', abbreviation: 'IA' },
+  { name: 'Kansas', country: 'US', abbreviation: 'KS' },
+  { name: 'Kentucky', country: 'US', abbreviation: 'KY' },
+  { name: 'Louisiana', country: 'US', abbreviation: 'LA' },
+  { name: 'Maine', country: 'US', abbreviation: 'ME' },
+  { name: 'Maryland', country: 'US', abbreviation: 'MD' },
+  { name: 'Massachusetts', country: 'US', abbreviation: 'MA' },
+  { name: 'Michigan', country: 'US', abbreviation: 'MI' },
+  { name: 'Minnesota', country: 'US', abbreviation: 'MN' },
+  { name: 'Mississippi', country: 'US', abbreviation: 'MS' },
+  { name: 'Missouri', country: 'US', abbreviation: 'MO' },
+  { name: 'Montana', country: 'US', abbreviation: 'MT' },
+  { name: 'Nebraska', country: 'US', abbreviation: 'NE' },
+  { name: 'Nevada', country: 'US', abbreviation: 'NV' },
+  { name: 'New Hampshire', country: 'US', abbreviation: 'NH' },
+  { name: 'New Jersey', country: 'US', abbreviation: 'NJ' },
+  { name: 'New Mexico', country: 'US', abbreviation: 'NM' },
+  { name: 'New York', country: 'US', abbreviation: 'NY' },
+  { name: 'North Carolina', country: 'US', abbreviation: 'NC' },
+  { name: 'North Dakota', country: 'US', abbreviation: 'ND' },
+  { name: 'Ohio', country: 'US', abbreviation: 'OH' },
+  { name: 'Oklahoma', country: 'US', abbreviation: 'OK' },
+  { name: 'Oregon', country: 'US', abbreviation: 'OR' },
+  { name: 'Pennsylvania', country: 'US', abbreviation: 'PA' },
+  { name: 'Rhode Island', country: 'US', abbreviation: 'RI' },
+  { name: 'South Carolina', country: 'US', abbreviation: 'SC' },
+  { name: 'South Dakota', country: 'US', abbreviation: 'SD' },
+  { name: 'Tennessee', country: 'US', abbreviation: 'TN' },
+  { name: 'Texas', country: 'US', abbreviation: 'TX' },
+  { name: 'Utah', country: 'US', abbreviation: 'UT' },
+  { name: 'Vermont', country: 'US', abbreviation: 'VT' },
+  { name: 'Virginia', country: 'US', abbreviation: 'VA' },
+  { name: 'Washington', country: 'US', abbreviation: 'WA' },
+  { name: 'West Virginia', country: 'US', abbreviation: 'WV' },
+  { name: 'Wisconsin', country: 'US', abbreviation: 'WI' },
+  { name: 'Wyoming', country: 'US', abbreviation: 'WY' },
+  // Canada
+  { name: 'Alberta', country: 'CA', abbreviation: 'AB' },
+  { name: 'British Columbia', country: 'CA', abbreviation: 'BC' },
+  { name: 'Manitoba', country: 'CA', abbreviation: 'MB' },
+  { name: 'New Brunswick', country: 'CA', abbreviation: 'NB' },
+  { name: 'Newfoundland and Labrador', country: 'CA', abbreviation: 'NL' },
+  { name: 'Nova Scotia', country: 'CA', abbreviation: 'NS' },
+  { name: 'Ontario', country: 'CA', abbreviation: 'ON' },
+  { name: 'Prince Edward Island', country: 'CA', abbreviation: 'PE' },
+  { name: 'Quebec', country: 'CA', abbreviation: 'QC' },
+  { name: 'Saskatchewan', country: 'CA', abbreviation: 'SK' },
+  // United Kingdom
+  { name: 'England', country: 'GB' },
+  { name: 'Scotland', country: 'GB' },
+  { name: 'Wales', country: 'GB' },
+  { name: 'Northern Ireland', country: 'GB' },
+  { name: 'Yorkshire', country: 'GB' },
+  { name: 'Lancashire', country: 'GB' },
+  { name: 'Kent', country: 'GB' },
+  { name: 'Devon', country: 'GB' },
+  { name: 'Cornwall', country: 'GB' },
+  // Germany
+  { name: 'Bavaria', country: 'DE' },
+  { name: 'Bayern', country: 'DE' },
+  { name: 'Baden-Württemberg', country: 'DE' },
+  { name: 'Brandenburg', country: 'DE' },
+  { name: 'Hesse', country: 'DE' },
+  { name: 'Hessen', country: 'DE' },
+  { name: 'Lower Saxony', country: 'DE' },
+  { name: 'Niedersachsen', country: 'DE' },
+  { name: 'North Rhine-Westphalia', country: 'DE' },
+  { name: 'Nordrhein-Westfalen', country: 'DE' },
+  { name: 'Saxony', country: 'DE' },
+  { name: 'Sachsen', country: 'DE' },
+  { name: 'Thuringia', country: 'DE' },
+  { name: 'Schleswig-Holstein', country: 'DE' },
+  // France
+  { name: 'Île-de-France', country: 'FR' },
+  { name: 'Provence', country: 'FR' },
+  { name: 'Normandy', country: 'FR' },
+  { name: 'Brittany', country: 'FR' },
+  { name: 'Occitanie', country: 'FR' },
+  { name: 'Auvergne-Rhône-Alpes', country: 'FR' },
+  // Spain
+  { name: 'Andalusia', country: 'ES' },
+  { name: 'Andalucía', country: 'ES' },
+  { name: 'Catalonia', country: 'ES' },
+  { name: 'Cataluña', country: 'ES' },
+  { name: 'Galicia', country: 'ES' },
+  { name: 'Basque Country', country: 'ES' },
+  { name: 'Valencian Community', country: 'ES' },
+  // Australia
+  { name: 'New South Wales', country: 'AU', abbreviation: 'NSW' },
+  { name: 'Victoria', country: 'AU', abbreviation: 'VIC' },
+  { name: 'Queensland', country: 'AU', abbreviation: 'QLD' },
+  { name: 'Western Australia', country: 'AU', abbreviation: 'WA' },
+  { name: 'South Australia', country: 'AU', abbreviation: 'SA' },
+  { name: 'Tasmania', country: 'AU', abbreviation: 'TAS' },
+  // India
+  { name: 'Maharashtra', country: 'IN' },
+  { name: 'Karnataka', country: 'IN' },
+  { name: 'Tamil Nadu', country: 'IN' },
+  { name: 'Kerala', country: 'IN' },
+  { name: 'Gujarat', country: 'IN' },
+  { name: 'Punjab', country: 'IN' },
+  { name: 'Uttar Pradesh', country: 'IN' },
+  { name: 'West Bengal', country: 'IN' },
+  { name: 'Rajasthan', country: 'IN' },
+  { name: 'Telangana', country: 'IN' },
+  // Brazil
+  { name: 'São Paulo', country: 'BR' },
+  { name: 'Minas Gerais', country: 'BR' },
+  { name: 'Bahia', country: 'BR' },
+  { name: 'Rio Grande do Sul', country: 'BR' },
+  { name: 'Paraná', country: 'BR' },
+  // Mexico
+  { name: 'Jalisco', country: 'MX' },
+  { name: 'Nuevo León', country: 'MX' },
+  { name: 'Yucatán', country: 'MX' },
+  { name: 'Oaxaca', country: 'MX' },
+];
+
+export const CITIES: City[] = [
+  // United States
+  ['New York', 'New York', 'US'], ['Los Angeles', 'California', 'US'], ['Chicago', 'Illinois', 'US'],
+  ['Houston', 'Texas', 'US'], ['Phoenix', 'Arizona', 'US'], ['Philadelphia', 'Pennsylvania', 'US'],
+  ['San Antonio', 'Texas', 'US'], ['San Diego', 'California', 'US'], ['Dallas', 'Texas', 'US'],
+  ['San Jose', 'California', 'US'], ['Austin', 'Texas', 'US'], ['Jacksonville', 'Florida', 'US'],
+  ['Fort Worth', 'Texas', 'US'], ['Columbus', 'Ohio', 'US'], ['Charlotte', 'North Carolina', 'US'],
+  ['San Francisco', 'California', 'US'], ['Indianapolis', 'Indiana', 'US'], ['Seattle', 'Washington', 'US'],
+  ['Denver', 'Colorado', 'US'], ['Boston', 'Massachusetts', 'US'], ['Nashville', 'Tennessee', 'US'],
+  ['Detroit', 'Michigan', 'US'], ['Portland', 'Oregon', 'US'], ['Las Vegas', 'Nevada', 'US'],
+  ['Memphis', 'Tennessee', 'US'], ['Louisville', 'Kentucky', 'US'], ['Baltimore', 'Maryland', 'US'],
+  ['Milwaukee', 'Wisconsin', 'US'], ['Albuquerque', 'New Mexico', 'US'], ['Tucson', 'Arizona', 'US'],
+  ['Fresno', 'California', 'US'], ['Sacramento', 'California', 'US'], ['Kansas City', 'Missouri', 'US'],
+  ['Atlanta', 'Georgia', 'US'], ['Miami', 'Florida', 'US'], ['Raleigh', 'North Carolina', 'US'],
+  ['Omaha', 'Nebraska', 'US'], ['Minneapolis', 'Minnesota', 'US'], ['Tulsa', 'Oklahoma', 'US'],
+  ['Cleveland', 'Ohio', 'US'], ['Oakland', 'California', 'US'], ['Tampa', 'Florida', 'US'],
+  ['New Orleans', 'Louisiana', 'US'], ['Pittsburgh', 'Pennsylvania', 'US'], ['Cincinnati', 'Ohio', 'US'],
+  ['St. Louis', 'Missouri', 'US'], ['Orlando', 'Florida', 'US'], ['Salt Lake City', 'Utah', 'US'],
+  ['Honolulu', 'Hawaii', 'US'], ['Anchorage', 'Alaska', 'US'], ['Buffalo', 'New York', 'US'],
+  ['Richmond', 'Virginia', 'US'], ['Boise', 'Idaho', 'US'], ['Des Moines', 'Iowa', 'US'],
+  ['Madison', 'Wisconsin', 'US'], ['Springfield', 'Illinois', 'US'], ['Hartford', 'Connecticut', 'US'],
+  ['Providence', 'Rhode Island', 'US'], ['Newark', 'New Jersey', 'US'], ['Brooklyn', 'New York', 'US'],
+  ['Palo Alto', 'California', 'US'], ['Cambridge', 'Massachusetts', 'US'], ['Ann Arbor', 'Michigan', 'US'],
+  // Canada
+  ['Toronto', 'Ontario', 'CA'], ['Montreal', 'Quebec', 'CA'], ['Vancouver', 'British Columbia', 'CA'],
+  ['Calgary', 'Alberta', 'CA'], ['Edmonton', 'Alberta', 'CA'], ['Ottawa', 'Ontario', 'CA'],
+  ['Winnipeg', 'Manitoba', 'CA'], ['Quebec City', 'Quebec', 'CA'], ['Halifax', 'Nova Scotia', 'CA'],
+  ['Victoria', 'British Columbia', 'CA'],
+  // United Kingdom and Ireland
+  ['London', 'England', 'GB'], ['Manchester', 'England', 'GB'], ['Birmingham', 'England', 'GB'],
+  ['Leeds', 'England', 'GB'], ['Liverpool', 'England', 'GB'], ['Bristol', 'England', 'GB'],
+  ['Sheffield', 'England', 'GB'], ['Newcastle', 'England', 'GB'], ['Nottingham', 'England', 'GB'],
+  ['Oxford', 'England', 'GB'], ['Brighton', 'England', 'GB'], ['Edinburgh', 'Scotland', 'GB'],
+  ['Glasgow', 'Scotland', 'GB'], ['Aberdeen', 'Scotland', 'GB'], ['Cardiff', 'Wales', 'GB'],
+  ['Swansea', 'Wales', 'GB'], ['Belfast', 'Northern Ireland', 'GB'], ['Dublin', 'Leinster', 'IE'],
+  ['Cork', 'Munster', 'IE'], ['Galway', 'Connacht', 'IE'],
+  // Germany, Austria, Switzerland
+  ['Berlin', 'Berlin', 'DE'], ['Hamburg', 'Hamburg', 'DE'], ['Munich', 'Bavaria', 'DE'],
+  ['München', 'Bavaria', 'DE'], ['Cologne', 'North Rhine-Westphalia', 'DE'], ['Köln', 'North Rhine-Westphalia', 'DE'],
+  ['Frankfurt', 'Hesse', 'DE'], ['Stuttgart', 'Baden-Württemberg', 'DE'], ['Düsseldorf', 'North Rhine-Westphalia', 'DE'],
+  ['Leipzig', 'Saxony', 'DE'], ['Dresden', 'Saxony', 'DE'], ['Hannover', 'Lower Saxony', 'DE'],
+  ['Nuremberg', 'Bavaria', 'DE'], ['Nürnberg', 'Bavaria', 'DE'], ['Bremen', 'Bremen', 'DE'],
+  ['Vienna', 'Vienna', 'AT'], ['Wien', 'Vienna', 'AT'], ['Salzburg', 'Salzburg', 'AT'],
+  ['Zurich', 'Zurich', 'CH'], ['Zürich', 'Zurich', 'CH'], ['Geneva', 'Geneva', 'CH'],
+  ['Basel', 'Basel-Stadt', 'CH'], ['Bern', 'Bern', 'CH'],
+  // France, Benelux
+  ['Paris', 'Île-de-France', 'FR'], ['Marseille', 'Provence', 'FR'], ['Lyon', 'Auvergne-Rhône-Alpes', 'FR'],
+  ['Toulouse', 'Occitanie', 'FR'], ['Nice', 'Provence', 'FR'], ['Nantes', 'Pays de la Loire', 'FR'],
+  ['Strasbourg', 'Grand Est', 'FR'], ['Bordeaux', 'Nouvelle-Aquitaine', 'FR'], ['Lille', 'Hauts-de-France', 'FR'],
+  ['Amsterdam', 'North Holland', 'NL'], ['Rotterdam', 'South Holland', 'NL'], ['The Hague', 'South Holland', 'NL'],
+  ['Utrecht', 'Utrecht', 'NL'], ['Brussels', 'Brussels', 'BE'], ['Antwerp', 'Flanders', 'BE'],
+  // Southern Europe
+  ['Madrid', 'Community of Madrid', 'ES'], ['Barcelona', 'Catalonia', 'ES'], ['Valencia', 'Valencian Community', 'ES'],
+  ['Seville', 'Andalusia', 'ES'], ['Sevilla', 'Andalusia', 'ES'], ['Bilbao', 'Basque Country', 'ES'],
+  ['Málaga', 'Andalusia', 'ES'], ['Lisbon', 'Lisbon', 'PT'], ['Lisboa', 'Lisbon', 'PT'], ['Porto', 'Porto', 'PT'],
+  ['Rome', 'Lazio', 'IT'], ['Roma', 'Lazio', 'IT'], ['Milan', 'Lombardy', 'IT'], ['Milano', 'Lombardy', 'IT'],
+  ['Naples', 'Campania', 'IT'], ['Turin', 'Piedmont', 'IT'], ['Florence', 'Tuscany', 'IT'],
+  ['Venice', 'Veneto', 'IT'], ['Bologna', 'Emilia-Romagna', 'IT'], ['Athens', 'Attica', 'GR'],
+  // Northern and Eastern Europe
+  ['Stockholm', 'Stockholm', 'SE'], ['Gothenburg', 'Västra Götaland', 'SE'], ['Oslo', 'Oslo', 'NO'],
+  ['Copenhagen', 'Capital Region', 'DK'], ['Helsinki', 'Uusimaa', 'FI'], ['Reykjavik', 'Capital Region', 'IS'],
+  ['Warsaw', 'Masovia', 'PL'], ['Kraków', 'Lesser Poland', 'PL'], ['Krakow', 'Lesser Poland', 'PL'],
+  ['Prague', 'Prague', 'CZ'], ['Budapest', 'Budapest', 'HU'], ['Bucharest', 'Bucharest', 'RO'],
+  ['Sofia', 'Sofia', 'BG'], ['Belgrade', 'Belgrade', 'RS'], ['Zagreb', 'Zagreb', 'HR'],
+  ['Kyiv', 'Kyiv', 'UA'], ['Kiev', 'Kyiv', 'UA'], ['Moscow', 'Moscow', 'RU'], ['Saint Petersburg', 'Saint Petersburg', 'RU'],
+  ['Istanbul', 'Istanbul', 'TR'], ['Ankara', 'Ankara', 'TR'],
+  // Asia and Middle East
+  ['Tokyo', 'Tokyo', 'JP'], ['Osaka', 'Osaka', 'JP'], ['Kyoto', 'Kyoto', 'JP'], ['Yokohama', 'Kanagawa', 'JP'],
+  ['Nagoya', 'Aichi', 'JP'], ['Sapporo', 'Hokkaido', 'JP'], ['Seoul', 'Seoul', 'KR'], ['Busan', 'Busan', 'KR'],
+  ['Beijing', 'Beijing', 'CN'], ['Shanghai', 'Shanghai', 'CN'], ['Shenzhen', 'Guangdong', 'CN'],
+  ['Guangzhou', 'Guangdong', 'CN'], ['Chengdu', 'Sichuan', 'CN'], ['Wuhan', 'Hubei', 'CN'],
+  ['Taipei', 'Taipei', 'TW'], ['Bangkok', 'Bangkok', 'TH'], ['Hanoi', 'Hanoi', 'VN'],
+  ['Ho Chi Minh City', 'Ho Chi Minh City', 'VN'], ['Kuala Lumpur', 'Kuala Lumpur', 'MY'], ['Jakarta', 'Jakarta', 'ID'],
+  ['Manila', 'Metro Manila', 'PH'], ['Mumbai', 'Maharashtra', 'IN'], ['Delhi', 'Delhi', 'IN'],
+  ['New Delhi', 'Delhi', 'IN'], ['Bangalore', 'Karnataka', 'IN'], ['Bengaluru', 'Karnataka', 'IN'],
+  ['Hyderabad', 'Telangana', 'IN'], ['Chennai', 'Tamil Nadu', 'IN'], ['Kolkata', 'West Bengal', 'IN'],
+  ['Pune', 'Maharashtra', 'IN'], ['Ahmedabad', 'Gujarat', 'IN'], ['Karachi', 'Sindh', 'PK'],
+  ['Lahore', 'Punjab', 'PK'], ['Dhaka', 'Dhaka', 'BD'], ['Dubai', 'Dubai', 'AE'], ['Abu Dhabi', 'Abu Dhabi', 'AE'],
+  ['Doha', 'Doha', 'QA'], ['Riyadh', 'Riyadh', 'SA'], ['Tel Aviv', 'Tel Aviv', 'IL'], ['Jerusalem', 'Jerusalem', 'IL'],
+  ['Tehran', 'Tehran', 'IR'], ['Baghdad', 'Baghdad', 'IQ'], ['Beirut', 'Beirut', 'LB'], ['Amman', 'Amman', 'JO'],
+  // Africa
+  ['Cairo', 'Cairo', 'EG'], ['Lagos', 'Lagos', 'NG'], ['Abuja', 'Federal Capital Territory', 'NG'],
+  ['Nairobi', 'Nairobi', 'KE'], ['Johannesburg', 'Gauteng', 'ZA'], ['Cape Town', 'Western Cape', 'ZA'],
+  ['Durban', 'KwaZulu-Natal', 'ZA'], ['Casablanca', 'Casablanca-Settat', 'MA'], ['Accra', 'Greater Accra', 'GH'],
+  ['Addis Ababa', 'Addis Ababa', 'ET'], ['Dakar', 'Dakar', 'SN'], ['Tunis', 'Tunis', 'TN'],
+  // Oceania
+  ['Sydney', 'New South Wales', 'AU'], ['Melbourne', 'Victoria', 'AU'], ['Brisbane', 'Queensland', 'AU'],
+  ['Perth', 'Western Australia', 'AU'], ['Adelaide', 'South Australia', 'AU'], ['Canberra', 'Australian Capital Territory', 'AU'],
+  ['Auckland', 'Auckland', 'NZ'], ['Wellington', 'Wellington', 'NZ'], ['Christchurch', 'Canterbury', 'NZ'],
+  // Latin America
+  ['Mexico City', 'Mexico City', 'MX'], ['Guadalajara', 'Jalisco', 'MX'], ['Monterrey', 'Nuevo León', 'MX'],
+  ['São Paulo', 'São Paulo', 'BR'], ['Rio de Janeiro', 'Rio de Janeiro', 'BR'], ['Brasília', 'Federal District', 'BR'],
+  ['Salvador', 'Bahia', 'BR'], ['Belo Horizonte', 'Minas Gerais', 'BR'], ['Porto Alegre', 'Rio Grande do Sul', 'BR'],
+  ['Buenos Aires', 'Buenos Aires', 'AR'], ['Córdoba', 'Córdoba', 'AR'], ['Santiago', 'Santiago Metropolitan', 'CL'],
+  ['Lima', 'Lima', 'PE'], ['Bogotá', 'Bogotá', 'CO'], ['Bogota', 'Bogotá', 'CO'], ['Medellín', 'Antioquia', 'CO'],
+  ['Caracas', 'Capital District', 'VE'], ['Quito', 'Pichincha', 'EC'], ['Montevideo', 'Montevideo', 'UY'],
+  ['Havana', 'Havana', 'CU'], ['San Juan', 'San Juan', 'PR'], ['Panama City', 'Panamá', 'PA'],
+];
+
+// Place names that are also common given names or words; they only count with a locating cue nearby
+export const AMBIGUOUS_PLACES = new Set([
+  'Austin', 'Charlotte', 'Florence', 'Georgia', 'Jordan', 'Madison', 'Nice', 'Orlando', 'Phoenix',
+  'Salvador', 'Santiago', 'Sofia', 'Springfield', 'Victoria', 'Washington', 'Columbus', 'Richmond',
+  'Providence', 'Buffalo', 'Kent', 'Devon', 'Cork', 'Perth', 'Wellington', 'Adelaide', 'Lima', 'Bern',
+  'Cambridge', 'Oxford', 'Newark', 'Salzburg', 'Sydney', 'Porto', 'Punjab', 'Bahia',
+]);
+
+export interface PostalFormat {
+  country: string;
+  pattern: RegExp;
+  // Whether the pattern is distinctive enough to accept without a nearby place or "ZIP"/"postcode" cue
+  standalone: boolean;
+}
+
+export const POSTAL_FORMATS: PostalFormat[] = [
+  { country: 'GB', pattern: /\b(?:[A-Z]{1,2}\d[A-Z\d]?|GIR) ?\d[A-Z]{2}\b/g, standalone: true },
+  { country: 'CA', pattern: /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d\b/g, standalone: true },
+  { country: 'NL', pattern: /\b[1-9]\d{3} ?(?!SA|SD|SS)[A-Z]{2}\b/g, standalone: false },
+  { country: 'US', pattern: /\b\d{5}(?:-\d{4})?\b/g, standalone: false },
+  { country: 'DE', pattern: /\b\d{5}\b/g, standalone: false },
+  { country: 'JP', pattern: /\b\d{3}-\d{4}\b/g, standalone: false },
+  { country: 'BR', pattern: /\b\d{5}-\d{3}\b/g, standalone: false },
+  { country: 'IN', pattern: /\b[1-9]\d{5}\b/g, standalone: false },
+];
@@ -0,0 +1,261 @@
+// Offline given-name and surname lists for name detection and substitution.
+// Each list is ordered from most to least frequent in its locale; they are samples, not censuses.
+
+export type NameLocale = 'en' | 'es' | 'fr' | 'de' | 'it' | 'nl' | 'pt' | 'ru' | 'ar' | 'hi' | 'zh' | 'ja' | 'ko';
+
+export interface NameList {
+  locale: NameLocale;
+  female: string[];
+  male: string[];
+  surnames: string[];
+}
+
+export const NAME_LISTS: NameList[] = [
+  {
+    locale: 'en',
+    female: [
+      'Mary', 'Patricia', 'Jennifer', 'Linda', 'Elizabeth', 'Barbara', 'Susan', 'Jessica', 'Sarah', 'Karen',
+      'Lisa', 'Nancy', 'Betty', 'Sandra', 'Margaret', 'Ashley', 'Kimberly', 'Emily', 'Donna', 'Michelle',
+      'Carol', 'Amanda', 'Melissa', 'Deborah', 'Stephanie', 'Rebecca', 'Laura', 'Sharon', 'Cynthia', 'Kathleen',
+      'Amy', 'Angela', 'Anna', 'Emma', 'Olivia', 'Sophia', 'Isabella', 'Charlotte', 'Amelia', 'Grace',
+      'Chloe', 'Hannah', 'Rachel', 'Megan', 'Lauren', 'Katherine', 'Julia', 'Zoë', 'Zoe', 'Claire',
+    ],
+    male: [
+      'James', 'Robert', 'John', 'Michael', 'David', 'William', 'Richard', 'Joseph', 'Thomas', 'Charles',
+      'Christopher', 'Daniel', 'Matthew', 'Anthony', 'Mark', 'Donald', 'Steven', 'Paul', 'Andrew', 'Joshua',
+      'Kenneth', 'Kevin', 'Brian', 'George', 'Timothy', 'Ronald', 'Edward', 'Jason', 'Jeffrey', 'Ryan',
+      'Jacob', 'Gary', 'Nicholas', 'Eric', 'Jonathan', 'Stephen', 'Larry', 'Justin', 'Scott', 'Brandon',
+      'Benjamin', 'Samuel', 'Gregory', 'Alexander', 'Patrick', 'Frank', 'Oliver', 'Harry', 'Jack', 'Liam',
+    ],
+    surnames: [
+      'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Miller', 'Davis', 'Wilson', 'Anderson', 'Taylor',
+      'Thomas', 'Moore', 'Jackson', 'Martin', 'Lee', 'Thompson', 'White', 'Harris', 'Clark', 'Lewis',
+      'Robinson', 'Walker', 'Young', 'Allen', 'King', 'Wright', 'Scott', 'Hill', 'Green', 'Adams',
+      'Baker', 'Nelson', 'Carter', 'Mitchell', 'Roberts', 'Turner', 'Phillips', 'Campbell', 'Parker', 'Evans',
+      'Edwards', 'Collins', 'Stewart', 'Morris', 'Murphy', 'Cook', 'Rogers', 'Morgan', 'Cooper', 'Peterson',
+      'Reed', 'Bailey', 'Bell', 'Kelly', 'Howard', 'Ward', 'Cox', 'Richardson', 'Wood', 'Watson',
+      'Brooks', 'Bennett', 'Gray', 'Hughes', 'Price', 'Sanders', 'Myers', 'Long', 'Ross', 'Foster',
+      'McDonald', 'MacDonald', 'McCarthy', 'McKenzie', 'MacLeod', "O'Neill", "O'Brien", "O'Connor", "O'Sullivan", 'Murray',
+    ],
+  },
+  {
+    locale: 'es',
+    female: [
+      'María', 'Carmen', 'Ana', 'Isabel', 'Laura', 'Lucía', 'Cristina', 'Marta', 'Elena', 'Pilar',
+      'Sofía', 'Paula', 'Raquel', 'Rosa', 'Teresa', 'Beatriz', 'Silvia', 'Patricia', 'Alejandra', 'Valentina',
+      'Guadalupe', 'Mariana', 'Camila', 'Daniela', 'Ximena',
+    ],
+    male: [
+      'Antonio', 'José', 'Manuel', 'Francisco', 'Juan', 'David', 'Javier', 'Carlos', 'Jesús', 'Alejandro',
+      'Miguel', 'Rafael', 'Pedro', 'Ángel', 'Pablo', 'Sergio', 'Fernando', 'Jorge', 'Luis', 'Alberto',
+      'Diego', 'Andrés', 'Santiago', 'Mateo', 'Raúl',
+    ],
+    surnames: [
+      'García', 'Rodríguez', 'González', 'Fernández', 'López', 'Martínez', 'Sánchez', 'Pérez', 'Gómez', 'Martín',
+      'Jiménez', 'Ruiz', 'Hernández', 'Díaz', 'Moreno', 'Muñoz', 'Álvarez', 'Romero', 'Alonso', 'Gutiérrez',
+      'Navarro', 'Torres', 'Domínguez', 'Vázquez', 'Ramos', 'Gil', 'Ramírez', 'Serrano', 'Blanco', 'Castillo',
+      'Ortiz', 'Rubio', 'Morales', 'Delgado', 'Castro', 'Ortega', 'Flores', 'Reyes', 'Cruz', 'Vargas',
+    ],
+  },
+  {
+    locale: 'fr',
+    female: [
+      'Marie', 'Nathalie', 'Isabelle', 'Sylvie', 'Catherine', 'Françoise', 'Martine', 'Christine', 'Monique', 'Valérie',
+      'Sophie', 'Céline', 'Camille', 'Léa', 'Manon', 'Chloé', 'Inès', 'Juliette', 'Élodie', 'Aurélie',
+      'Hélène', 'Brigitte', 'Anaïs', 'Margaux', 'Océane',
+    ],
+    male: [
+      'Jean', 'Pierre', 'Michel', 'Philippe', 'Alain', 'Nicolas', 'Christophe', 'Patrick', 'François', 'Laurent',
+      'Frédéric', 'Éric', 'Stéphane', 'Olivier', 'Sébastien', 'Julien', 'Thierry', 'Benoît', 'Guillaume', 'Antoine',
+      'Jérôme', 'Luc', 'Hugo', 'Louis', 'Théo', 'Jean-Luc', 'Jean-Pierre', 'Jean-Claude', 'Jean-Marc', 'Jean-François',
+    ],
+    surnames: [
+      'Martin', 'Bernard', 'Thomas', 'Petit', 'Robert', 'Richard', 'Durand', 'Dubois', 'Moreau', 'Laurent',
+      'Simon', 'Michel', 'Lefebvre', 'Leroy', 'Roux', 'David', 'Bertrand', 'Morel', 'Fournier', 'Girard',
+      'Bonnet', 'Dupont', 'Lambert', 'Fontaine', 'Rousseau', 'Vincent', 'Muller', 'Lefèvre', 'Faure', 'André',
+      'Mercier', 'Blanc', 'Guérin', 'Boyer', 'Garnier', 'Chevalier', 'François', 'Legrand', 'Gauthier', 'Picard',
+    ],
+  },
+  {
+    locale: 'de',
+    female: [
+      'Ursula', 'Monika', 'Petra', 'Elisabeth', 'Sabine', 'Renate', 'Helga', 'Karin', 'Brigitte', 'Ingrid',
+      'Andrea', 'Claudia', 'Susanne', 'Birgit', 'Katharina', 'Julia', 'Anja', 'Stefanie', 'Lena', 'Leonie',
+      'Jana', 'Hannelore', 'Gisela', 'Lieselotte',
+    ],
+    male: [
+      'Peter', 'Michael', 'Thomas', 'Andreas', 'Wolfgang', 'Klaus', 'Jürgen', 'Günter', 'Stefan', 'Christian',
+      'Uwe', 'Werner', 'Horst', 'Frank', 'Dieter', 'Manfred', 'Gerhard', 'Hans', 'Bernd', 'Torsten',
+      'Markus', 'Matthias', 'Sebastian', 'Lukas', 'Maximilian', 'Jörg', 'Björn', 'Heinz', 'Karl-Heinz', 'Felix',
+    ],
+    surnames: [
+      'Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann',
+      'Schäfer', 'Koch', 'Bauer', 'Richter', 'Klein', 'Wolf', 'Schröder', 'Neumann', 'Schwarz', 'Zimmermann',
+      'Braun', 'Krüger', 'Hofmann', 'Hartmann', 'Lange', 'Schmitt', 'Werner', 'Schmitz', 'Krause', 'Meier',
+      'Lehmann', 'Schmid', 'Schulze', 'Maier', 'Köhler', 'Herrmann', 'König', 'Walter', 'Mayer', 'Huber',
+    ],
+  },
+  {
+    locale: 'it',
+    female: [
+      'Giulia', 'Francesca', 'Chiara', 'Sara', 'Martina', 'Alessandra', 'Valentina', 'Federica', 'Elisa', 'Silvia',
+      'Giovanna', 'Rosa', 'Lucia', 'Paola', 'Elena', 'Giorgia', 'Aurora', 'Alessia', 'Beatrice', 'Ludovica',
+    ],
+    male: [
+      'Giuseppe', 'Giovanni', 'Antonio', 'Mario', 'Luigi', 'Francesco', 'Angelo', 'Vincenzo', 'Pietro', 'Salvatore',
+      'Carlo', 'Franco', 'Domenico', 'Bruno', 'Paolo', 'Michele', 'Giorgio', 'Alessandro', 'Lorenzo', 'Leonardo',
+      'Matteo', 'Marco', 'Andrea', 'Luca', 'Niccolò',
+    ],
+    surnames: [
+      'Rossi', 'Russo', 'Ferrari', 'Esposito', 'Bianchi', 'Romano', 'Colombo', 'Ricci', 'Marino', 'Greco',
+      'Bruno', 'Gallo', 'Conti', 'De Luca', 'Mancini', 'Costa', 'Giordano', 'Rizzo', 'Lombardi', 'Moretti',
+      'Barbieri', 'Fontana', 'Santoro', 'Mariani', 'Rinaldi', 'Caruso', 'Ferrara', 'Galli', 'Martini', 'Leone',
+    ],
+  },
+  {
+    locale: 'nl',
+    female: [
+      'Maria', 'Anna', 'Johanna', 'Cornelia', 'Elisabeth', 'Wilhelmina', 'Sanne', 'Lotte', 'Femke', 'Anouk',
+      'Fleur', 'Eva', 'Lieke', 'Sophie', 'Mila', 'Tess', 'Saskia', 'Marieke', 'Ingrid', 'Annelies',
+    ],
+    male: [
+      'Jan', 'Johannes', 'Cornelis', 'Hendrik', 'Willem', 'Pieter', 'Gerrit', 'Jacobus', 'Dirk', 'Bram',
+      'Daan', 'Sem', 'Lucas', 'Milan', 'Thijs', 'Ruben', 'Joost', 'Sander', 'Maarten', 'Wouter',
+    ],
+    surnames: [
+      'de Jong', 'Jansen', 'de Vries', 'van den Berg', 'van Dijk', 'Bakker', 'Janssen', 'Visser', 'Smit', 'Meijer',
+      'de Boer', 'Mulder', 'de Groot', 'Bos', 'Vos', 'Peters', 'Hendriks', 'van Leeuwen', 'Dekker', 'Brouwer',
+      'de Wit', 'Dijkstra', 'Smits', 'de Graaf', 'van der Meer', 'van der Linden', 'Kok', 'Jacobs', 'de Haan', 'Vermeulen',
+    ],
+  },
+  {
+    locale: 'pt',
+    female: [
+      'Maria', 'Ana', 'Francisca', 'Antônia', 'Adriana', 'Juliana', 'Márcia', 'Fernanda', 'Patrícia', 'Aline',
+      'Beatriz', 'Inês', 'Leonor', 'Mariana', 'Gabriela', 'Larissa', 'Letícia', 'Conceição', 'Joana', 'Raquel',
+    ],
+    male: [
+      'José', 'João', 'António', 'Antônio', 'Francisco', 'Carlos', 'Paulo', 'Pedro', 'Lucas', 'Luiz',
+      'Marcos', 'Luís', 'Gabriel', 'Rafael', 'Daniel', 'Marcelo', 'Bruno', 'Eduardo', 'Felipe', 'Rodrigo',
+      'Gonçalo', 'Tiago', 'Duarte', 'Rui', 'Vítor',
+    ],
+    surnames: [
+      'Silva', 'Santos', 'Ferreira', 'Pereira', 'Oliveira', 'Costa', 'Rodrigues', 'Martins', 'Jesus', 'Sousa',
+      'Fernandes', 'Gonçalves', 'Gomes', 'Lopes', 'Marques', 'Alves', 'Almeida', 'Ribeiro', 'Pinto', 'Carvalho',
+      'Teixeira', 'Moreira', 'Correia', 'Mendes', 'Nunes', 'Soares', 'Vieira', 'Monteiro', 'Cardoso', 'Rocha',
+    ],
+  },
+  {
+    locale: 'ru',
+    female: [
+      'Анна', 'Мария', 'Елена', 'Ольга', 'Наталья', 'Татьяна', 'Ирина', 'Светлана', 'Екатерина', 'Юлия',
+      'Анастасия', 'Дарья', 'Марина', 'Людмила', 'Галина', 'Anna', 'Olga', 'Natalia', 'Tatiana', 'Irina',
+      'Svetlana', 'Ekaterina', 'Anastasia', 'Yulia', 'Daria',
+    ],
+    male: [
+      'Александр', 'Сергей', 'Дмитрий', 'Андрей', 'Алексей', 'Максим', 'Евгений', 'Иван', 'Михаил', 'Николай',
+      'Владимир', 'Артём', 'Павел', 'Игорь', 'Юрий', 'Alexander', 'Sergei', 'Dmitry', 'Andrei', 'Alexei',
+      'Maxim', 'Yevgeny', 'Ivan', 'Mikhail', 'Nikolai', 'Vladimir', 'Pavel', 'Igor', 'Yuri', 'Boris',
+    ],
+    surnames: [
+      'Иванов', 'Смирнов', 'Кузнецов', 'Попов', 'Васильев', 'Петров', 'Соколов', 'Михайлов', 'Новиков', 'Фёдоров',
+      'Морозов', 'Волков', 'Алексеев', 'Лебедев', 'Семёнов', 'Егоров', 'Павлов', 'Козлов', 'Степанов', 'Николаев',
+      'Ivanov', 'Smirnov', 'Kuznetsov', 'Popov', 'Vasiliev', 'Petrov', 'Sokolov', 'Mikhailov', 'Novikov', 'Volkov',
+    ],
+  },
+  {
+    locale: 'ar',
+    female: [
+      'Fatima', 'Aisha', 'Maryam', 'Zainab', 'Khadija', 'Noor', 'Layla', 'Leila', 'Amina', 'Huda',
+      'Salma', 'Yasmin', 'Rania', 'Hana', 'Mona', 'Samira', 'Nadia', 'Farah', 'Reem', 'Dina',
+    ],
+    male: [
+      'Mohammed', 'Muhammad', 'Mohamed', 'Ahmed', 'Ahmad', 'Ali', 'Omar', 'Hassan', 'Hussein', 'Ibrahim',
+      'Youssef', 'Yusuf', 'Khalid', 'Abdullah', 'Mustafa', 'Tariq', 'Karim', 'Samir', 'Hamza', 'Bilal',
+      'Walid', 'Faisal', 'Rashid', 'Nabil', 'Saeed',
+    ],
+    surnames: [
+      'Al-Sayed', 'Hassan', 'Hussein', 'Ibrahim', 'Mahmoud', 'Abdullah', 'Saleh', 'Khalil', 'Haddad', 'Nasser',
+      'Mansour', 'Farouk', 'Aziz', 'Qureshi', 'Al-Rashid', 'Al-Farsi', 'Al-Amin', 'Al-Masri', 'Khoury', 'Suleiman',
+    ],
+  },
+  {
+    locale: 'hi',
+    female: [
+      'Priya', 'Ananya', 'Aditi', 'Pooja', 'Neha', 'Sunita', 'Anjali', 'Kavita', 'Deepika', 'Lakshmi',
+      'Meera', 'Divya', 'Shreya', 'Isha', 'Riya', 'Sneha', 'Nisha', 'Rekha', 'Geeta', 'Sita',
+    ],
+    male: [
+      'Rahul', 'Amit', 'Rajesh', 'Sanjay', 'Sunil', 'Vijay', 'Anil', 'Suresh', 'Ramesh', 'Arjun',
+      'Vikram', 'Rohit', 'Aditya', 'Arun', 'Ravi', 'Deepak', 'Manoj', 'Karthik', 'Aarav', 'Vivek',
+    ],
+    surnames: [
+      'Sharma', 'Singh', 'Kumar', 'Patel', 'Gupta', 'Shah', 'Reddy', 'Rao', 'Iyer', 'Nair',
+      'Mehta', 'Joshi', 'Verma', 'Mishra', 'Chopra', 'Malhotra', 'Agarwal', 'Banerjee', 'Chatterjee', 'Das',
+      'Pillai', 'Menon', 'Desai', 'Kapoor', 'Bose',
+    ],
+  },
+  {
+    locale: 'zh',
+    female: ['秀英', '桂英', '秀兰', '玉兰', '丽', '静', '敏', '燕', '艳', '娟', 'Mei', 'Xiu', 'Ying', 'Hui', 'Jing', 'Fang', 'Lan'],
+    male: ['伟', '强', '磊', '军', '勇', '杰', '涛', '明', '超', '刚', 'Wei', 'Qiang', 'Lei', 'Jun', 'Yong', 'Jie', 'Tao', 'Ming'],
+    surnames: [
+      '王', '李', '张', '刘', '陈', '杨', '黄', '赵', '吴', '周', '徐', '孙', '马', '朱', '胡', '郭', '何', '高', '林', '罗',
+      '郑', '梁', '谢', '宋', '唐', '许', '韩', '冯', '邓', '曹', '欧阳', '司马', '诸葛',
+      'Wang', 'Li', 'Zhang', 'Liu', 'Chen', 'Yang', 'Huang', 'Zhao', 'Wu', 'Zhou', 'Xu', 'Sun', 'Ma', 'Zhu', 'Hu',
+      'Guo', 'Lin', 'Luo', 'Zheng', 'Liang', 'Xie', 'Song', 'Tang', 'Han', 'Feng', 'Deng', 'Cao', 'Wong', 'Chan', 'Cheung',
+    ],
+  },
+  {
+    locale: 'ja',
+    female: ['陽子', '恵子', '京子', '幸子', '和子', '裕子', '美咲', '結衣', 'さくら', 'Yoko', 'Keiko', 'Yuko', 'Sakura', 'Yui', 'Aiko', 'Haruka', 'Yuki', 'Misaki'],
+    male: ['太郎', '一郎', '健', '誠', '翔', '大輔', '拓也', '浩', '隆', 'Taro', 'Ichiro', 'Ken', 'Makoto', 'Sho', 'Daisuke', 'Takuya', 'Hiroshi', 'Takashi', 'Kenji'],
+    surnames: [
+      '佐藤', '鈴木', '高橋', '田中', '伊藤', '渡辺', '山本', '中村', '小林', '加藤', '吉田', '山田', '佐々木', '山口', '松本', '井上', '木村', '林', '斎藤', '清水',
+      'Sato', 'Suzuki', 'Takahashi', 'Tanaka', 'Ito', 'Watanabe', 'Yamamoto', 'Nakamura', 'Kobayashi', 'Kato',
+      'Yoshida', 'Yamada', 'Sasaki', 'Yamaguchi', 'Matsumoto', 'Inoue', 'Kimura', 'Hayashi', 'Saito', 'Shimizu',
+    ],
+  },
+  {
+    locale: 'ko',
+    female: ['지영', '서연', '민지', '수진', '지은', '하은', 'Ji-young', 'Seo-yeon', 'Min-ji', 'Su-jin', 'Ji-eun'],
+    male: ['민준', '서준', '도윤', '현우', '지훈', '성민', 'Min-jun', 'Seo-jun', 'Do-yun', 'Hyun-woo', 'Ji-hoon'],
+    surnames: [
+      '김', '이', '박', '최', '정', '강', '조', '윤', '장', '임', '한', '오', '서', '신', '권',
+      'Kim', 'Lee', 'Park', 'Choi', 'Jung', 'Kang', 'Cho', 'Yoon', 'Jang', 'Lim', 'Shin', 'Kwon',
+    ],
+  },
+];
+
+// Words that join the parts of a surname: "van der Berg", "de la Cruz", "bin Laden", "al-Rashid"
+export const NAME_PARTICLES = [
+  'van', 'von', 'der', 'den', 'ter', 'ten', 'de', 'del', 'della', 'di', 'da', 'das', 'dos', 'do', 'du',
+  'la', 'le', 'zu', 'y', 'e', 'bin', 'binti', 'bint', 'ibn', 'al', 'el', 'af', 'av', 'st.',
+];
+
+// Honorific suffixes written straight after East Asian names, e.g. 田中さん, 王先生, 김민수 씨
+export const EAST_ASIAN_HONORIFICS = ['さん', '様', '氏', '君', 'ちゃん', '先生', '女士', '小姐', '老师', '씨', '님'];
+
+export type NameGender = 'female' | 'male';
+
+// Titles that give a person's gender away, before the name or as part of it: "Mrs. Fernández", "Herr Weber"
+export const GENDERED_TITLES: Record<NameGender, string[]> = {
+  female: ['Mrs', 'Ms', 'Miss', 'Dame', 'Lady', 'Frau', 'Mme', 'Madame', 'Mlle', 'Sra', 'Srta', 'Señora', 'Señorita', 'Signora', 'Dona'],
+  male: ['Mr', 'Sir', 'Lord', 'Herr', 'Monsieur', 'Sr', 'Señor', 'Signor', 'Sig', 'Dom'],
+};
+
+export const NAME_LOCALE_LABELS: Record<NameLocale, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  nl: 'Dutch',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  ar: 'Arabic',
+  hi: 'Indian',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
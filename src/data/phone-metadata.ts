@@ -0,0 +1,33 @@
+// Offline numbering-plan metadata for phone detection and substitution.
+// Patterns describe the national significant number (NSN): no country code, no trunk prefix.
+
+export interface PhoneRegion {
+  country: string;
+  name: string;
+  callingCode: string;
+  // Trunk prefix dialled before the NSN inside the country, e.g. '0' in "020 7946 0018"
+  nationalPrefix?: string;
+  pattern: RegExp;
+  // Leading NSN digits kept in substitutes so mobiles stay mobiles and landlines stay landlines
+  keepLeading: number;
+}
+
+export const PHONE_REGIONS: PhoneRegion[] = [
+  { country: 'US', name: 'United States / Canada', callingCode: '1', nationalPrefix: '1', pattern: /^[2-9]\d{2}[2-9]\d{6}$/, keepLeading: 0 },
+  { country: 'GB', name: 'United Kingdom', callingCode: '44', nationalPrefix: '0', pattern: /^(?:[1-3]\d{8,9}|7\d{9}|[58]\d{9})$/, keepLeading: 2 },
+  { country: 'DE', name: 'Germany', callingCode: '49', nationalPrefix: '0', pattern: /^(?:1[5-7]\d{8,9}|[2-9]\d{5,10})$/, keepLeading: 2 },
+  { country: 'FR', name: 'France', callingCode: '33', nationalPrefix: '0', pattern: /^[1-9]\d{8}$/, keepLeading: 1 },
+  { country: 'ES', name: 'Spain', callingCode: '34', pattern: /^[6-9]\d{8}$/, keepLeading: 1 },
+  { country: 'IT', name: 'Italy', callingCode: '39', pattern: /^(?:0\d{5,10}|3\d{8,9})$/, keepLeading: 2 },
+  { country: 'NL', name: 'Netherlands', callingCode: '31', nationalPrefix: '0', pattern: /^[1-9]\d{8}$/, keepLeading: 1 },
+  { country: 'CH', name: 'Switzerland', callingCode: '41', nationalPrefix: '0', pattern: /^[1-9]\d{8}$/, keepLeading: 2 },
+  { country: 'IE', name: 'Ireland', callingCode: '353', nationalPrefix: '0', pattern: /^(?:8[3-9]\d{7}|[1-9]\d{6,8})$/, keepLeading: 2 },
+  { country: 'IN', name: 'India', callingCode: '91', nationalPrefix: '0', pattern: /^(?:[6-9]\d{9}|[1-5]\d{9})$/, keepLeading: 1 },
+  { country: 'BR', name: 'Brazil', callingCode: '55', nationalPrefix: '0', pattern: /^[1-9]{2}(?:9\d{8}|[2-5]\d{7})$/, keepLeading: 2 },
+  { country: 'MX', name: 'Mexico', callingCode: '52', pattern: /^[1-9]\d{9}$/, keepLeading: 2 },
+  { country: 'AU', name: 'Australia', callingCode: '61', nationalPrefix: '0', pattern: /^[2-478]\d{8}$/, keepLeading: 1 },
+  { country: 'JP', name: 'Japan', callingCode: '81', nationalPrefix: '0', pattern: /^[1-9]\d{8,9}$/, keepLeading: 2 },
+  { country: 'CN', name: 'China', callingCode: '86', nationalPrefix: '0', pattern: /^(?:1[3-9]\d{9}|[2-9]\d{8,10})$/, keepLeading: 2 },
+  { country: 'ZA', name: 'South Africa', callingCode: '27', nationalPrefix: '0', pattern: /^[1-8]\d{8}$/, keepLeading: 2 },
+  { country: 'SG', name: 'Singapore', callingCode: '65', pattern: /^[3689]\d{7}$/, keepLeading: 1 },
+];
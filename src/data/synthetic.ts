@@ -0,0 +1,115 @@
+// Building blocks for synthetic addresses, per substitute locale. Streets, cities and postal codes
+// are combined at random, so the generator never runs out; names come from the NAME_LISTS in ./names.
+
+export type SubstituteLocale = 'en-US' | 'en-GB' | 'de-DE' | 'fr-FR' | 'es-ES' | 'ja-JP';
+
+export interface AddressParts {
+  // Street names without the street type, e.g. "Maple", "Bahnhof", "de la Paix"
+  streets: string[];
+  streetTypes: string[];
+  // City, region or state where the locale writes one, and the leading digits/letters of its postal codes
+  cities: [city: string, region: string, postalPrefix: string][];
+}
+
+export const SUBSTITUTE_LOCALE_LABELS: Record<SubstituteLocale, string> = {
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'de-DE': 'German',
+  'fr-FR': 'French',
+  'es-ES': 'Spanish',
+  'ja-JP': 'Japanese',
+};
+
+export const ADDRESS_PARTS: Record<SubstituteLocale, AddressParts> = {
+  'en-US': {
+    streets: [
+      'Maple', 'Oak', 'Pine', 'Cedar', 'Elm', 'Birch', 'Willow', 'Walnut', 'Chestnut', 'Spruce',
+      'Washington', 'Lincoln', 'Jefferson', 'Madison', 'Franklin', 'Park', 'Lake', 'Hill', 'River', 'Sunset',
+      'Highland', 'Meadow', 'Forest', 'Ridge', 'Valley', 'Church', 'Mill', 'Spring', 'Prospect', 'Center',
+    ],
+    streetTypes: ['Street', 'Avenue', 'Road', 'Lane', 'Drive', 'Court', 'Way', 'Place', 'Boulevard', 'Terrace'],
+    cities: [
+      ['Springfield', 'IL', '627'], ['Columbus', 'OH', '432'], ['Portland', 'OR', '972'], ['Madison', 'WI', '537'],
+      ['Raleigh', 'NC', '276'], ['Boise', 'ID', '837'], ['Tucson', 'AZ', '857'], ['Omaha', 'NE', '681'],
+      ['Richmond', 'VA', '232'], ['Albany', 'NY', '122'], ['Sacramento', 'CA', '958'], ['Austin', 'TX', '787'],
+      ['Denver', 'CO', '802'], ['Nashville', 'TN', '372'], ['Tampa', 'FL', '336'], ['Spokane', 'WA', '992'],
+    ],
+  },
+  'en-GB': {
+    streets: [
+      'High', 'Station', 'Church', 'Victoria', 'Park', 'Mill', 'Queen', 'Manor', 'School', 'Green',
+      'Grange', 'Windsor', 'Richmond', 'Albert', 'York', 'Chapel', 'Orchard', 'Meadow', 'Kingsway', 'Beech',
+      'Hawthorn', 'Rowan', 'Clarence', 'Stanley', 'Cromwell', 'Abbey', 'Priory', 'Bridge', 'Market', 'North',
+    ],
+    streetTypes: ['Street', 'Road', 'Lane', 'Close', 'Avenue', 'Gardens', 'Crescent', 'Grove', 'Terrace', 'Drive'],
+    cities: [
+      ['Leeds', '', 'LS'], ['Bristol', '', 'BS'], ['Manchester', '', 'M'], ['Sheffield', '', 'S'],
+      ['Nottingham', '', 'NG'], ['Leicester', '', 'LE'], ['Norwich', '', 'NR'], ['York', '', 'YO'],
+      ['Cardiff', '', 'CF'], ['Edinburgh', '', 'EH'], ['Glasgow', '', 'G'], ['Exeter', '', 'EX'],
+      ['Oxford', '', 'OX'], ['Cambridge', '', 'CB'], ['Brighton', '', 'BN'], ['Newcastle upon Tyne', '', 'NE'],
+    ],
+  },
+  'de-DE': {
+    streets: [
+      'Haupt', 'Bahnhof', 'Schul', 'Garten', 'Berg', 'Linden', 'Kirch', 'Wald', 'Goethe', 'Schiller',
+      'Mozart', 'Birken', 'Eichen', 'Rosen', 'Mühlen', 'Dorf', 'Feld', 'Wiesen', 'Buchen', 'Ahorn',
+      'Friedrich', 'Bismarck', 'Post', 'Markt', 'Sonnen', 'Tannen', 'Brunnen', 'Kastanien', 'Amsel', 'Lerchen',
+    ],
+    // Written straight after the name: "Bahnhofstraße"
+    streetTypes: ['straße', 'weg', 'allee', 'gasse', 'platz', 'ring'],
+    cities: [
+      ['Berlin', '', '10'], ['Hamburg', '', '22'], ['München', '', '80'], ['Köln', '', '50'],
+      ['Frankfurt am Main', '', '60'], ['Stuttgart', '', '70'], ['Düsseldorf', '', '40'], ['Leipzig', '', '04'],
+      ['Dortmund', '', '44'], ['Bremen', '', '28'], ['Dresden', '', '01'], ['Hannover', '', '30'],
+      ['Nürnberg', '', '90'], ['Freiburg im Breisgau', '', '79'], ['Münster', '', '48'], ['Kiel', '', '24'],
+    ],
+  },
+  'fr-FR': {
+    streets: [
+      'de la Paix', 'Victor Hugo', 'de la République', 'Jean Jaurès', 'du Général de Gaulle', 'des Lilas',
+      'Pasteur', 'Voltaire', 'de la Gare', 'du Moulin', 'des Écoles', 'Gambetta', "de l'Église", 'Émile Zola',
+      'du Château', 'des Roses', 'Lafayette', 'Saint-Michel', 'des Tilleuls', 'de la Liberté', 'Molière',
+      'du Port', 'des Acacias', 'Carnot', 'de Verdun', 'du Stade', 'des Peupliers', 'Jules Ferry',
+    ],
+    // Written before the name: "rue de la Paix"
+    streetTypes: ['rue', 'avenue', 'boulevard', 'place', 'allée', 'impasse', 'chemin', 'quai'],
+    cities: [
+      ['Paris', '', '750'], ['Lyon', '', '690'], ['Marseille', '', '130'], ['Toulouse', '', '310'],
+      ['Nice', '', '060'], ['Nantes', '', '440'], ['Strasbourg', '', '670'], ['Montpellier', '', '340'],
+      ['Bordeaux', '', '330'], ['Lille', '', '590'], ['Rennes', '', '350'], ['Reims', '', '511'],
+      ['Grenoble', '', '380'], ['Dijon', '', '210'], ['Angers', '', '490'], ['Brest', '', '292'],
+    ],
+  },
+  'es-ES': {
+    streets: [
+      'Mayor', 'de Alcalá', 'Real', 'de la Constitución', 'del Sol', 'Nueva', 'de Cervantes', 'San Juan',
+      'de la Paz', 'del Carmen', 'Santa María', 'de Goya', 'de Colón', 'del Prado', 'Velázquez', 'de la Libertad',
+      'de Andalucía', 'del Mar', 'de las Flores', 'de los Olivos', 'San Francisco', 'de la Iglesia', 'del Río', 'Princesa',
+    ],
+    // Written before the name: "Calle Mayor"
+    streetTypes: ['Calle', 'Avenida', 'Paseo', 'Plaza', 'Camino', 'Ronda'],
+    cities: [
+      ['Madrid', '', '280'], ['Barcelona', '', '080'], ['Valencia', '', '460'], ['Sevilla', '', '410'],
+      ['Zaragoza', '', '500'], ['Málaga', '', '290'], ['Murcia', '', '300'], ['Palma', '', '070'],
+      ['Bilbao', '', '480'], ['Alicante', '', '030'], ['Córdoba', '', '140'], ['Valladolid', '', '470'],
+      ['Granada', '', '180'], ['Salamanca', '', '370'], ['Santander', '', '390'], ['Pamplona', '', '310'],
+    ],
+  },
+  'ja-JP': {
+    // Town (chō) names; the ward and prefecture come from the city entry
+    streets: ['本町', '栄町', '緑町', '中央', '旭町', '幸町', '若葉', '桜台', '東町', '西町', '南町', '北町', '新町', '寿町', '宮前'],
+    streetTypes: [],
+    cities: [
+      ['新宿区', '東京都', '160'], ['港区', '東京都', '105'], ['世田谷区', '東京都', '154'], ['大阪市北区', '大阪府', '530'],
+      ['横浜市西区', '神奈川県', '220'], ['名古屋市中区', '愛知県', '460'], ['札幌市中央区', '北海道', '060'], ['福岡市博多区', '福岡県', '812'],
+      ['京都市中京区', '京都府', '604'], ['神戸市中央区', '兵庫県', '650'], ['仙台市青葉区', '宮城県', '980'], ['広島市中区', '広島県', '730'],
+    ],
+  },
+};
+
+// Country an original value was found in -> locale its substitute is written in
+export const COUNTRY_LOCALES: Record<string, SubstituteLocale> = {
+  US: 'en-US', CA: 'en-US', GB: 'en-GB', IE: 'en-GB', AU: 'en-GB', NZ: 'en-GB',
+  DE: 'de-DE', AT: 'de-DE', CH: 'de-DE', FR: 'fr-FR', BE: 'fr-FR', LU: 'fr-FR',
+  ES: 'es-ES', MX: 'es-ES', AR: 'es-ES', CO: 'es-ES', CL: 'es-ES', JP: 'ja-JP',
+};
@@ -0,0 +1,13 @@
+import { useEffect } from "react";
+import { registerDetector } from "@/lib/detectors/registry";
+import { createCustomRulesDetector, type CustomRule } from "@/lib/custom-rules";
+import { useLocalStorage } from "./use-local-storage";
+
+// Custom rules persisted in this browser and kept registered as a detector while mounted
+export function useCustomRules() {
+  const [rules, setRules] = useLocalStorage<CustomRule[]>("blind-pigeon.custom-rules", []);
+
+  useEffect(() => registerDetector(createCustomRulesDetector(rules)), [rules]);
+
+  return { rules, setRules };
+}
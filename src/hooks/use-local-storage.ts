@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    // Unreadable or blocked storage: start from the fallback rather than failing the page
+    return fallback;
+  }
+}
+
+// useState that survives reloads by mirroring its value into localStorage
+export function useLocalStorage<T>(key: string, fallback: T) {
+  const [value, setValue] = useState<T>(() => load(key, fallback));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Private browsing can refuse writes; the value still applies for this session
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+}
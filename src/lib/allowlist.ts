@@ -0,0 +1,58 @@
+import type { SensitiveDataType } from './text-processor';
+import { createId } from './utils';
+
+export type AllowlistMatchMode = 'exact' | 'case-insensitive' | 'regex';
+
+export interface AllowlistEntry {
+  id: string;
+  // The term, or a regex source that must match the whole detected value
+  value: string;
+  mode: AllowlistMatchMode;
+  // Only spans detected as this category are kept; 'all' keeps them whatever they were detected as
+  category: SensitiveDataType | 'all';
+}
+
+export const createAllowlistEntry = (
+  value: string,
+  category: AllowlistEntry['category'] = 'all',
+  mode: AllowlistMatchMode = 'exact'
+): AllowlistEntry => ({
+  id: createId(),
+  value,
+  mode,
+  category,
+});
+
+// Returns a message describing what is wrong with the entry, or null when it can be used
+export const validateAllowlistEntry = (entry: AllowlistEntry): string | null => {
+  if (!entry.value.trim()) return 'Enter a term to keep.';
+  if (entry.mode !== 'regex') return null;
+
+  try {
+    new RegExp(entry.value);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  return null;
+};
+
+const matchesEntry = (entry: AllowlistEntry, value: string): boolean => {
+  switch (entry.mode) {
+    case 'exact':
+      return value === entry.value;
+    case 'case-insensitive':
+      return value.toLowerCase() === entry.value.toLowerCase();
+    case 'regex':
+      try {
+        return new RegExp(`^(?:${entry.value})$`).test(value);
+      } catch {
+        return false;
+      }
+  }
+};
+
+export const isAllowlisted = (
+  entries: AllowlistEntry[],
+  span: { type: SensitiveDataType; value: string }
+): AllowlistEntry | undefined =>
+  entries.find(entry => (entry.category === 'all' || entry.category === span.type) && matchesEntry(entry, span.value));
@@ -0,0 +1,135 @@
+import { escapeRegExp } from './utils';
+import { splitName } from './detectors/names';
+import { formatToken, generateSubstitute, isRestorable, parseToken, type DetectedEntity } from './text-processor';
+import { maskValue } from './strategies';
+import { isAllowlisted, type AllowlistEntry } from './allowlist';
+import { overlaps } from './span-resolution';
+
+interface PartialForm {
+  value: string;
+  substitute: string;
+  full: DetectedEntity;
+}
+
+const initialOf = (word: string): string => Array.from(word)[0];
+
+// "John Smith" -> {NAME_1} gives John -> {NAME_1_FIRST}, Smith -> {NAME_1_LAST}, J. Smith -> {NAME_1_SHORT}, J.S. -> {NAME_1_INITIALS}.
+// Other substitutes that do not split into given name and surname follow the same parts.
+const suffixedPartialForms = (
+  full: DetectedEntity,
+  original: ReturnType<typeof splitName>,
+  substituteFor: (value: string, suffix: string) => string
+): PartialForm[] => {
+  if (!original.surname) return [];
+  const surnameCore = original.surname.split(' ').pop();
+  const forms = [
+    { value: `${initialOf(original.given)}. ${original.surname}`, suffix: 'SHORT' },
+    { value: `${initialOf(original.given)}.${initialOf(surnameCore)}.`, suffix: 'INITIALS' },
+    { value: original.surname, suffix: 'LAST' },
+    { value: original.given, suffix: 'FIRST' },
+  ];
+  return forms.map(({ value, suffix }) => ({ value, substitute: substituteFor(value, suffix), full }));
+};
+
+// Hashes get the part as a suffix ("NAME-3f9a1c0b2e-FIRST"), masks hide the part itself, a description
+// ("a woman") stands for every part and a dropped name drops its parts too
+const oneWayPart = (full: DetectedEntity, value: string, suffix: string): string => {
+  switch (full.mode) {
+    case 'hash':
+      return `${full.substitute}-${suffix}`;
+    case 'mask':
+      return maskValue(value, 0);
+    default:
+      return full.substitute;
+  }
+};
+
+// "John Smith" -> "Michael Carter" gives John -> Michael, Smith -> Carter, J. Smith -> M. Carter, J.S. -> M.C.
+const partialForms = (full: DetectedEntity): PartialForm[] => {
+  const original = splitName(full.value);
+  const token = parseToken(full.substitute);
+  if (token) return suffixedPartialForms(full, original, (_value, suffix) => formatToken('name', token.number, suffix));
+  if (full.mode && full.mode !== 'fake') return suffixedPartialForms(full, original, (value, suffix) => oneWayPart(full, value, suffix));
+
+  const replacement = splitName(full.substitute);
+  if (!original.surname || !replacement.surname) return [];
+
+  const surnameCore = original.surname.split(' ').pop();
+  const replacementCore = replacement.surname.split(' ').pop();
+  const forms = [
+    { value: `${initialOf(original.given)}. ${original.surname}`, substitute: `${initialOf(replacement.given)}. ${replacement.surname}` },
+    { value: `${initialOf(original.given)}.${initialOf(surnameCore)}.`, substitute: `${initialOf(replacement.given)}.${initialOf(replacementCore)}.` },
+    { value: `${initialOf(original.given)}. ${initialOf(surnameCore)}.`, substitute: `${initialOf(replacement.given)}. ${initialOf(replacementCore)}.` },
+    { value: original.surname, substitute: replacement.surname },
+    { value: surnameCore, substitute: replacementCore },
+    { value: original.given, substitute: replacement.given },
+  ];
+
+  return forms.map(form => ({ ...form, full }));
+};
+
+// Masks first names, surnames, initials and possessives ("Smith's") of detected full names with the
+// matching part of the full name's substitute. Partial names found on their own are re-pointed too.
+export const linkPartialNames = (
+  text: string,
+  entities: DetectedEntity[],
+  allowlist: AllowlistEntry[] = []
+): DetectedEntity[] => {
+  const fullNames = entities.filter(entity => entity.type === 'name' && splitName(entity.value).surname);
+  const forms = new Map<string, PartialForm>();
+  for (const full of fullNames) {
+    for (const form of partialForms(full)) {
+      if (isAllowlisted(allowlist, { type: 'name', value: form.value })) continue;
+      // When two people share a first name the earlier full name keeps it
+      if (!forms.has(form.value)) forms.set(form.value, form);
+    }
+  }
+  if (forms.size === 0) return entities;
+
+  // Each substitute must restore to exactly one original
+  const usedSubstitutes = new Map(entities.map(entity => [entity.value, entity.substitute]));
+  const owners = new Map(entities.map(entity => [entity.substitute, entity.value]));
+  const substituteFor = (form: PartialForm): string => {
+    // Irreversible substitutes restore nothing, so several parts may share one
+    if (!isRestorable(form.full)) return form.substitute;
+    const owner = owners.get(form.substitute);
+    if (owner !== undefined && owner !== form.value) {
+      return generateSubstitute('name', form.value, usedSubstitutes, { mode: form.full.mode });
+    }
+    owners.set(form.substitute, form.value);
+    return form.substitute;
+  };
+
+  const linked = entities.map(entity => {
+    const form = entity.type === 'name' ? forms.get(entity.value) : undefined;
+    if (!form || form.full === entity) return entity;
+    return {
+      ...entity,
+      substitute: substituteFor(form),
+      linkedTo: form.full.value,
+      confidence: form.full.confidence,
+      mode: form.full.mode,
+    };
+  });
+
+  // Longest forms first so "J. Smith" is claimed before "Smith"
+  const ordered = Array.from(forms.values()).sort((a, b) => b.value.length - a.value.length);
+  for (const form of ordered) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{M}])${escapeRegExp(form.value)}(?![\\p{L}\\p{M}])`, 'gu');
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      if (linked.some(entity => overlaps(entity, { index: match.index, value: form.value }))) continue;
+      linked.push({
+        type: 'name',
+        value: form.value,
+        substitute: substituteFor(form),
+        index: match.index,
+        confidence: form.full.confidence,
+        linkedTo: form.full.value,
+        mode: form.full.mode,
+      });
+    }
+  }
+
+  return linked.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,128 @@
+import type { SensitiveDataType } from './text-processor';
+import type { DetectionCandidate, Detector } from './detectors/registry';
+import { escapeRegExp } from './utils';
+
+export type CustomRuleKind = 'regex' | 'term' | 'wordlist';
+
+export interface CustomRule {
+  id: string;
+  name: string;
+  kind: CustomRuleKind;
+  // Regex source, the exact term, or one word list entry per line
+  pattern: string;
+  caseSensitive: boolean;
+  category: SensitiveDataType;
+  // "PROJECT-{n}": {n} numbers distinct matches, {type} is the category. Empty uses the category's generator.
+  template: string;
+  enabled: boolean;
+}
+
+export const CUSTOM_RULES_DETECTOR_ID = 'custom-rules';
+
+// The 'custom' category has no generator of its own, so untemplated custom matches are numbered
+const DEFAULT_CUSTOM_TEMPLATE = '[REDACTED-CUSTOM-{n}]';
+
+const wordListEntries = (pattern: string): string[] =>
+  pattern.split('\n').map(entry => entry.trim()).filter(Boolean);
+
+// Terms only match as whole words when they start and end with word characters
+export const termSource = (term: string): string =>
+  `${/^\w/.test(term) ? '(?<!\\w)' : ''}${escapeRegExp(term)}${/\w$/.test(term) ? '(?!\\w)' : ''}`;
+
+const ruleSource = (rule: CustomRule): string => {
+  switch (rule.kind) {
+    case 'regex':
+      return rule.pattern;
+    case 'term':
+      return termSource(rule.pattern.trim());
+    case 'wordlist':
+      // Longest first so "Project Falcon" wins over "Falcon"
+      return wordListEntries(rule.pattern)
+        .sort((a, b) => b.length - a.length)
+        .map(termSource)
+        .join('|');
+  }
+};
+
+export const compileRule = (rule: CustomRule): RegExp =>
+  new RegExp(ruleSource(rule), rule.caseSensitive ? 'g' : 'gi');
+
+// Returns a message describing what is wrong with the rule, or null when it can be used
+export const validateRule = (rule: CustomRule): string | null => {
+  if (!rule.name.trim()) return 'Give the rule a name.';
+
+  const entries = rule.kind === 'wordlist' ? wordListEntries(rule.pattern) : [rule.pattern.trim()];
+  if (entries.length === 0 || !entries[0]) {
+    return rule.kind === 'wordlist' ? 'Add at least one word.' : 'Enter a pattern.';
+  }
+
+  let regex: RegExp;
+  try {
+    regex = compileRule(rule);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  if (regex.test('')) return 'The pattern matches empty text, so it would match everywhere.';
+
+  // One substitute for several different values could not be restored
+  const matchesSeveralValues = rule.kind === 'regex' || entries.length > 1;
+  if (rule.template && matchesSeveralValues && !rule.template.includes('{n}')) {
+    return 'The template needs {n} so different matches get different substitutes.';
+  }
+
+  return null;
+};
+
+export const renderTemplate = (template: string, rule: CustomRule, n: number): string =>
+  template.replace(/\{n\}/g, String(n)).replace(/\{type\}/g, rule.category.toUpperCase());
+
+// Matches of one rule, with the substitute its template gives each distinct value.
+// Rules sharing a template should share `numbers` so their {n} values do not collide.
+export const findRuleMatches = (
+  text: string,
+  rule: CustomRule,
+  numbers = new Map<string, number>()
+): DetectionCandidate[] => {
+  const regex = compileRule(rule);
+  const template = rule.template || (rule.category === 'custom' ? DEFAULT_CUSTOM_TEMPLATE : '');
+  const matches: DetectionCandidate[] = [];
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+
+    const value = match[0];
+    if (!numbers.has(value)) numbers.set(value, numbers.size + 1);
+    matches.push({
+      value,
+      index: match.index,
+      // The user asked for exactly this
+      confidence: 1,
+      type: rule.category,
+      subtype: rule.name,
+      substitute: template ? renderTemplate(template, rule, numbers.get(value)) : undefined,
+    });
+  }
+
+  return matches;
+};
+
+export const createCustomRulesDetector = (rules: CustomRule[]): Detector => {
+  const usable = rules.filter(rule => rule.enabled && validateRule(rule) === null);
+  return {
+    id: CUSTOM_RULES_DETECTOR_ID,
+    category: 'custom',
+    // Above the built-ins: a user rule is more specific than any generic pattern
+    priority: 110,
+    detect: text => {
+      const numbering = new Map<string, Map<string, number>>();
+      return usable.flatMap(rule => {
+        if (!numbering.has(rule.template)) numbering.set(rule.template, new Map());
+        return findRuleMatches(text, rule, numbering.get(rule.template));
+      });
+    },
+  };
+};
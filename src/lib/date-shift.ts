@@ -0,0 +1,90 @@
+import { detectDates, formatDate, parseDateValue, type CalendarDate } from './detectors/dates';
+import { createKeyedRandom } from './pseudonym';
+import { random } from './randomness';
+
+// Date shifting moves every date by the same offset, so intervals ("admitted 3 days after surgery") survive
+// masking. Whole weeks keep weekdays, whole months keep the day of the month.
+export type DateShiftGranularity = 'day' | 'week' | 'month';
+
+export interface DateShift {
+  unit: 'day' | 'month';
+  amount: number;
+}
+
+// Offsets are large enough to hide the real dates and small enough to keep seasons and ages plausible
+const SHIFT_RANGES: Record<DateShiftGranularity, { min: number; max: number; step: number; unit: DateShift['unit'] }> = {
+  day: { min: 30, max: 365, step: 1, unit: 'day' },
+  week: { min: 5, max: 52, step: 7, unit: 'day' },
+  month: { min: 2, max: 24, step: 1, unit: 'month' },
+};
+
+// One offset per granularity, key and person for the whole session
+const sessionShifts = new Map<string, DateShift>();
+
+export const clearDateShifts = () => {
+  sessionShifts.clear();
+};
+
+// With a pseudonymisation key the offset is derived from it, so every document shifted with the key lines up.
+// `person` gives that person's dates an offset of their own.
+export const dateShiftFor = (granularity: DateShiftGranularity, person?: string, pseudonymKey?: string): DateShift => {
+  const cacheKey = JSON.stringify([granularity, person ?? null, pseudonymKey ?? null]);
+  const cached = sessionShifts.get(cacheKey);
+  if (cached) return cached;
+
+  const next = pseudonymKey ? createKeyedRandom(pseudonymKey, 'date-shift', person ?? '') : random;
+  const { min, max, step, unit } = SHIFT_RANGES[granularity];
+  const sign = next() < 0.5 ? -1 : 1;
+  const shift: DateShift = { unit, amount: sign * (min + Math.floor(next() * (max - min + 1))) * step };
+  sessionShifts.set(cacheKey, shift);
+  return shift;
+};
+
+// Month shifts land on the same day of the month, or the month's last day when it is shorter
+export const shiftDate = (date: CalendarDate, shift: DateShift, direction: 1 | -1 = 1): CalendarDate => {
+  const amount = shift.amount * direction;
+  if (shift.unit === 'month') {
+    const months = date.year * 12 + (date.month - 1) + amount;
+    const year = Math.floor(months / 12);
+    const month = (months % 12) + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { year, month, day: Math.min(date.day, lastDay) };
+  }
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + amount));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+// "03/14/1981" shifted and written the same way; undefined when the value is not a date we can read
+export const shiftDateValue = (value: string, shift: DateShift, direction: 1 | -1 = 1): string | undefined => {
+  const parsed = parseDateValue(value);
+  return parsed ? formatDate(shiftDate(parsed.date, shift, direction), parsed.format) : undefined;
+};
+
+export const sameDate = (a: CalendarDate, b: CalendarDate): boolean =>
+  a.year === b.year && a.month === b.month && a.day === b.day;
+
+export interface UnshiftedDate {
+  // Where the restored date starts in the returned text
+  index: number;
+  value: string;
+  // The date as the LLM wrote it
+  shifted: string;
+}
+
+// Moves every date in the text back by the shift, in the format the LLM wrote it. Dates the LLM worked out
+// itself ("two weeks after 2031-03-02") come back on the real timeline too.
+export const unshiftDates = (text: string, shift: DateShift): { text: string; dates: UnshiftedDate[] } => {
+  const dates: UnshiftedDate[] = [];
+  let restored = '';
+  let lastIndex = 0;
+
+  for (const found of detectDates(text)) {
+    const value = formatDate(shiftDate(found.date, shift, -1), found.format);
+    restored += text.slice(lastIndex, found.index);
+    dates.push({ index: restored.length, value, shifted: found.value });
+    restored += value;
+    lastIndex = found.index + found.value.length;
+  }
+
+  return { text: restored + text.slice(lastIndex), dates };
+};
@@ -0,0 +1,39 @@
+export interface AddressMatch {
+  value: string;
+  index: number;
+  // Set when the street layout gives the country away, so the substitute can follow it
+  country?: string;
+}
+
+// House number, street name and street type; "12 Main Street January ..." is a date line, not an address
+const addressRegex = /\b\d+(?:\s+[A-Za-z]+)+(?:\s+(?:Avenue|Ave|Street|St|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Circle|Cir|Court|Ct|Way|Place|Pl))\b(?!\s+(?:January|February|March|April|May|June|July|August|September|October|November|December))/gi;
+
+// "Bahnhofstraße 12a", "Goethe-Platz 3"
+const germanAddressRegex = /(?<![\p{L}\d])\p{Lu}[\p{L}-]*(?:straße|strasse|str\.|weg|allee|gasse|platz|ring|damm)\s+\d{1,4}[a-z]?(?![\p{L}\d])/gu;
+
+// "12 rue de la Paix", "3 bis avenue Victor Hugo"
+const frenchAddressRegex = /(?<![\p{L}\d])\d{1,4}(?:\s?(?:bis|ter))?,?\s+(?:rue|avenue|boulevard|bd|place|allée|impasse|chemin|quai)(?:\s+(?:d'|l'|de|du|des|la|le|les|\p{Lu}[\p{L}'-]*))*\s*\p{Lu}[\p{L}'-]*/gu;
+
+// "Calle Mayor, 5", "Avenida de la Constitución 12"
+const spanishAddressRegex = /(?<![\p{L}\d])(?:Calle|C\/|Avenida|Avda\.|Paseo|Plaza|Camino|Ronda)(?:\s+(?:de|del|la|las|los|el|\p{Lu}[\p{L}-]*))*\s+\p{Lu}[\p{L}-]*,?\s+(?:n\.?º\s*)?\d{1,4}(?![\p{L}\d])/gu;
+
+const PATTERNS: { regex: RegExp; country?: string }[] = [
+  { regex: addressRegex },
+  { regex: germanAddressRegex, country: 'DE' },
+  { regex: frenchAddressRegex, country: 'FR' },
+  { regex: spanishAddressRegex, country: 'ES' },
+];
+
+export const detectAddresses = (text: string): AddressMatch[] => {
+  const matches: AddressMatch[] = [];
+
+  for (const { regex, country } of PATTERNS) {
+    let match;
+    regex.lastIndex = 0;
+    while ((match = regex.exec(text)) !== null) {
+      matches.push({ value: match[0], index: match.index, country });
+    }
+  }
+
+  return matches;
+};
@@ -0,0 +1,122 @@
+import { registerDetector, type Detector } from './registry';
+import { detectSecrets } from './secrets';
+import { detectNetworkIdentifiers } from './network';
+import { detectEmails } from './email';
+import { detectAccounts } from './financial';
+import { detectSsns } from './ssn';
+import { detectPhones } from './phones';
+import { detectDates } from './dates';
+import { detectAddresses } from './addresses';
+import { detectNames } from './names';
+import { detectLocations, lookupPlace } from './locations';
+
+// The detectors that ship with the app; priorities leave gaps for org-specific detectors in between
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    id: 'secrets',
+    category: 'secret',
+    priority: 100,
+    detect: text => detectSecrets(text).map(secret => ({
+      value: secret.value,
+      index: secret.index,
+      confidence: secret.kind === 'high-entropy' ? 0.7 : 0.95,
+      subtype: secret.kind,
+    })),
+  },
+  {
+    id: 'network',
+    category: 'network',
+    priority: 90,
+    detect: (text, { options }) => detectNetworkIdentifiers(text, options.internalDomains).map(identifier => ({
+      value: identifier.value,
+      index: identifier.index,
+      confidence: 0.9,
+      subtype: identifier.kind,
+    })),
+  },
+  {
+    id: 'email',
+    category: 'email',
+    priority: 85,
+    detect: text => detectEmails(text).map(email => ({
+      value: email.value,
+      index: email.index,
+      confidence: 0.95,
+      subtype: email.kind,
+    })),
+  },
+  {
+    id: 'accounts',
+    category: 'account',
+    priority: 80,
+    detect: text => detectAccounts(text).map(account => ({
+      value: account.value,
+      index: account.index,
+      // Cards and IBANs carry a checksum; bare account numbers only have a context word
+      confidence: account.kind === 'bank-account' ? 0.75 : 0.95,
+      subtype: account.brand ?? account.kind,
+    })),
+  },
+  {
+    id: 'ssn',
+    category: 'ssn',
+    priority: 80,
+    detect: text => detectSsns(text).map(ssn => ({ value: ssn.value, index: ssn.index, confidence: 0.9 })),
+  },
+  {
+    // Above phones so a digit run inside a street address stays part of the address
+    id: 'addresses',
+    category: 'address',
+    priority: 65,
+    detect: text => detectAddresses(text).map(address => ({ ...address, confidence: 0.7 })),
+  },
+  {
+    id: 'phones',
+    category: 'phone',
+    priority: 60,
+    detect: (text, { options }) => detectPhones(text, options.defaultPhoneRegion).map(phone => ({
+      value: phone.value,
+      index: phone.index,
+      confidence: 0.8,
+      country: phone.country,
+    })),
+  },
+  {
+    id: 'dates',
+    category: 'dob',
+    priority: 50,
+    detect: (text, { options }) => detectDates(text)
+      // A shifted timeline only holds together when every date in it moves
+      .filter(date => date.isBirthDate || options.redactAllDates || options.substitutionModes.date === 'shift')
+      .map(date => ({
+        value: date.value,
+        index: date.index,
+        confidence: date.isBirthDate ? 0.85 : 0.9,
+        type: date.isBirthDate ? 'dob' : 'date',
+      })),
+  },
+  {
+    id: 'names',
+    category: 'name',
+    priority: 40,
+    detect: (text, { exclusions }) => detectNames(text, exclusions)
+      // Place names belong to the location detector, even when they look like "First Last"
+      .filter(name => !lookupPlace(name.value) && !/University|College|School|Hospital/.test(name.value))
+      .map(name => ({ value: name.value, index: name.index, confidence: name.confidence })),
+  },
+  {
+    id: 'locations',
+    category: 'location',
+    priority: 30,
+    detect: (text, { options }) => detectLocations(text, options.locationGranularity).map(location => ({
+      value: location.value,
+      index: location.index,
+      confidence: 0.75,
+      subtype: location.level,
+    })),
+  },
+];
+
+for (const detector of BUILTIN_DETECTORS) {
+  registerDetector(detector);
+}
@@ -0,0 +1,25 @@
+// Helpers for checking whether cue words appear close to a candidate match
+
+export const DEFAULT_CONTEXT_WINDOW = 40;
+
+export const hasContextBefore = (
+  text: string,
+  index: number,
+  cue: RegExp,
+  window = DEFAULT_CONTEXT_WINDOW
+): boolean => {
+  return cue.test(text.slice(Math.max(0, index - window), index));
+};
+
+export const hasContextAround = (
+  text: string,
+  index: number,
+  length: number,
+  cue: RegExp,
+  window = DEFAULT_CONTEXT_WINDOW
+): boolean => {
+  return (
+    hasContextBefore(text, index, cue, window) ||
+    cue.test(text.slice(index + length, index + length + window))
+  );
+};
@@ -0,0 +1,268 @@
+import { hasContextBefore } from './context';
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export type DateFormat =
+  | {
+      kind: 'numeric';
+      order: 'ymd' | 'mdy' | 'dmy';
+      separator: string;
+      padDay: boolean;
+      padMonth: boolean;
+      yearDigits: 2 | 4;
+    }
+  | {
+      kind: 'written';
+      order: 'md' | 'dm';
+      monthStyle: 'long' | 'short' | 'short-dot';
+      monthCase: 'title' | 'lower' | 'upper';
+      ordinal: boolean;
+      ofWord: boolean;
+      comma: boolean;
+      yearApostrophe: boolean;
+      yearDigits: 2 | 4;
+    };
+
+export interface DateMatch {
+  value: string;
+  index: number;
+  date: CalendarDate;
+  format: DateFormat;
+  isBirthDate: boolean;
+}
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const MONTH_PATTERN = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+
+const BIRTH_CONTEXT = /\b(?:born|birth|birthday|birthdate|dob|d\.o\.b)\b/i;
+const BIRTH_SUFFIX = /^\s*\((?:born|dob|d\.o\.b\.?)\)/i;
+const SENTENCE_BREAK = /[;\n]|[.!?]\s+(?=[A-Z])/g;
+
+const isoRegex = /(?<![\d./-])(\d{4})([-/.])(\d{1,2})\2(\d{1,2})(?![\d/-]|\.\d)/g;
+const numericRegex = /(?<![\d./-])(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})(?![\d/-]|\.\d)/g;
+const monthFirstRegex = new RegExp(
+  `\\b${MONTH_PATTERN}(\\.?)\\s+(\\d{1,2})(st|nd|rd|th)?(,?)\\s+('?)(\\d{4}|\\d{2})\\b`,
+  'gi'
+);
+const dayFirstRegex = new RegExp(
+  `\\b(\\d{1,2})(st|nd|rd|th)?(\\s+of)?\\s+${MONTH_PATTERN}(\\.?)(,?)\\s+('?)(\\d{4}|\\d{2})\\b`,
+  'gi'
+);
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const isValidDate = ({ year, month, day }: CalendarDate): boolean =>
+  month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+
+const expandYear = (digits: string): number => {
+  if (digits.length === 4) return parseInt(digits, 10);
+  const twoDigit = parseInt(digits, 10);
+  const currentTwoDigit = new Date().getFullYear() % 100;
+  return twoDigit > currentTwoDigit ? 1900 + twoDigit : 2000 + twoDigit;
+};
+
+const monthFromName = (name: string): number =>
+  MONTHS.findIndex(month => month.toLowerCase().startsWith(name.slice(0, 3).toLowerCase())) + 1;
+
+const detectCase = (word: string): 'title' | 'lower' | 'upper' => {
+  if (word === word.toUpperCase()) return 'upper';
+  if (word === word.toLowerCase()) return 'lower';
+  return 'title';
+};
+
+const ordinalSuffix = (day: number): string => {
+  if (day >= 11 && day <= 13) return 'th';
+  switch (day % 10) {
+    case 1: return 'st';
+    case 2: return 'nd';
+    case 3: return 'rd';
+    default: return 'th';
+  }
+};
+
+const applyCase = (word: string, monthCase: 'title' | 'lower' | 'upper'): string => {
+  if (monthCase === 'upper') return word.toUpperCase();
+  if (monthCase === 'lower') return word.toLowerCase();
+  return word;
+};
+
+export const formatDate = (date: CalendarDate, format: DateFormat): string => {
+  const year = format.yearDigits === 2
+    ? String(date.year % 100).padStart(2, '0')
+    : String(date.year);
+
+  if (format.kind === 'numeric') {
+    const day = format.padDay ? String(date.day).padStart(2, '0') : String(date.day);
+    const month = format.padMonth ? String(date.month).padStart(2, '0') : String(date.month);
+    const parts = format.order === 'ymd'
+      ? [year, month, day]
+      : format.order === 'mdy'
+        ? [month, day, year]
+        : [day, month, year];
+    return parts.join(format.separator);
+  }
+
+  const fullMonth = MONTHS[date.month - 1];
+  const monthName = applyCase(
+    format.monthStyle === 'long'
+      ? fullMonth
+      : fullMonth.slice(0, 3) + (format.monthStyle === 'short-dot' ? '.' : ''),
+    format.monthCase
+  );
+  const day = `${date.day}${format.ordinal ? ordinalSuffix(date.day) : ''}`;
+  const yearText = `${format.yearApostrophe ? "'" : ''}${year}`;
+
+  if (format.order === 'md') {
+    return `${monthName} ${day}${format.comma ? ',' : ''} ${yearText}`;
+  }
+  return `${day}${format.ofWord ? ' of' : ''} ${monthName}${format.comma ? ',' : ''} ${yearText}`;
+};
+
+const monthStyleOf = (name: string, dot: string): 'long' | 'short' | 'short-dot' => {
+  if (name.length > 3 && MONTHS.some(month => month.toLowerCase() === name.toLowerCase())) return 'long';
+  return dot ? 'short-dot' : 'short';
+};
+
+const collectDates = (text: string): Omit<DateMatch, 'isBirthDate'>[] => {
+  const found: Omit<DateMatch, 'isBirthDate'>[] = [];
+  let match;
+
+  isoRegex.lastIndex = 0;
+  while ((match = isoRegex.exec(text)) !== null) {
+    const [value, year, separator, month, day] = match;
+    const date = { year: parseInt(year, 10), month: parseInt(month, 10), day: parseInt(day, 10) };
+    if (!isValidDate(date)) continue;
+    found.push({
+      value,
+      index: match.index,
+      date,
+      format: { kind: 'numeric', order: 'ymd', separator, padDay: day.length === 2, padMonth: month.length === 2, yearDigits: 4 },
+    });
+  }
+
+  numericRegex.lastIndex = 0;
+  while ((match = numericRegex.exec(text)) !== null) {
+    const [value, first, separator, second, yearDigits] = match;
+    const a = parseInt(first, 10);
+    const b = parseInt(second, 10);
+
+    // Dots are the European convention; otherwise assume US order unless the numbers rule it out
+    const order: 'mdy' | 'dmy' = separator === '.' || (a > 12 && b <= 12) ? 'dmy' : 'mdy';
+    const date = order === 'mdy'
+      ? { year: expandYear(yearDigits), month: a, day: b }
+      : { year: expandYear(yearDigits), month: b, day: a };
+    if (!isValidDate(date)) continue;
+
+    const [dayText, monthText] = order === 'mdy' ? [second, first] : [first, second];
+    found.push({
+      value,
+      index: match.index,
+      date,
+      format: {
+        kind: 'numeric',
+        order,
+        separator,
+        padDay: dayText.length === 2,
+        padMonth: monthText.length === 2,
+        yearDigits: yearDigits.length === 4 ? 4 : 2,
+      },
+    });
+  }
+
+  monthFirstRegex.lastIndex = 0;
+  while ((match = monthFirstRegex.exec(text)) !== null) {
+    const [value, monthName, dot, day, ordinal, comma, apostrophe, yearDigits] = match;
+    const date = { year: expandYear(yearDigits), month: monthFromName(monthName), day: parseInt(day, 10) };
+    if (!isValidDate(date)) continue;
+    found.push({
+      value,
+      index: match.index,
+      date,
+      format: {
+        kind: 'written',
+        order: 'md',
+        monthStyle: monthStyleOf(monthName, dot),
+        monthCase: detectCase(monthName),
+        ordinal: Boolean(ordinal),
+        ofWord: false,
+        comma: Boolean(comma),
+        yearApostrophe: Boolean(apostrophe),
+        yearDigits: yearDigits.length === 4 ? 4 : 2,
+      },
+    });
+  }
+
+  dayFirstRegex.lastIndex = 0;
+  while ((match = dayFirstRegex.exec(text)) !== null) {
+    const [value, day, ordinal, ofWord, monthName, dot, comma, apostrophe, yearDigits] = match;
+    const date = { year: expandYear(yearDigits), month: monthFromName(monthName), day: parseInt(day, 10) };
+    if (!isValidDate(date)) continue;
+    found.push({
+      value,
+      index: match.index,
+      date,
+      format: {
+        kind: 'written',
+        order: 'dm',
+        monthStyle: monthStyleOf(monthName, dot),
+        monthCase: detectCase(monthName),
+        ordinal: Boolean(ordinal),
+        ofWord: Boolean(ofWord),
+        comma: Boolean(comma),
+        yearApostrophe: Boolean(apostrophe),
+        yearDigits: yearDigits.length === 4 ? 4 : 2,
+      },
+    });
+  }
+
+  // Written forms can share a day number ("3 March 4, 1984"), keep the first match only
+  let lastEnd = -1;
+  return found
+    .sort((a, b) => a.index - b.index)
+    .filter(date => {
+      if (date.index < lastEnd) return false;
+      lastEnd = date.index + date.value.length;
+      return true;
+    });
+};
+
+export const parseDateValue = (value: string): Omit<DateMatch, 'isBirthDate'> | null => {
+  const [parsed] = collectDates(value);
+  return parsed && parsed.index === 0 && parsed.value === value ? parsed : null;
+};
+
+// Only look back as far as the previous date or sentence break, so one "DOB" doesn't claim every date nearby
+const contextStart = (text: string, index: number, previousEnd: number): number => {
+  const windowStart = Math.max(previousEnd, index - 30);
+  const lookback = text.slice(windowStart, index);
+  let start = windowStart;
+  let match;
+  SENTENCE_BREAK.lastIndex = 0;
+  while ((match = SENTENCE_BREAK.exec(lookback)) !== null) {
+    start = windowStart + match.index + match[0].length;
+  }
+  return start;
+};
+
+export const detectDates = (text: string): DateMatch[] => {
+  let previousEnd = 0;
+
+  return collectDates(text).map(found => {
+    const start = contextStart(text, found.index, previousEnd);
+    const end = found.index + found.value.length;
+    const isBirthDate =
+      hasContextBefore(text, found.index, BIRTH_CONTEXT, found.index - start) ||
+      BIRTH_SUFFIX.test(text.slice(end, end + 12));
+    previousEnd = end;
+    return { ...found, isBirthDate };
+  });
+};
@@ -0,0 +1,38 @@
+import {
+  EDUCATION_SUFFIXES,
+  GOVERNMENT_SUFFIXES,
+  WEBMAIL_DOMAINS,
+  type EmailDomainKind,
+} from '@/data/email-domains';
+
+export interface EmailMatch {
+  value: string;
+  index: number;
+  kind: EmailDomainKind;
+}
+
+const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
+
+const hasSuffix = (domain: string, suffixes: string[]): boolean =>
+  suffixes.some(suffix => domain === suffix || domain.endsWith(`.${suffix}`));
+
+export const getEmailDomainKind = (domain: string): EmailDomainKind => {
+  const lower = domain.toLowerCase();
+  if (WEBMAIL_DOMAINS.includes(lower)) return 'webmail';
+  if (hasSuffix(lower, EDUCATION_SUFFIXES)) return 'education';
+  if (hasSuffix(lower, GOVERNMENT_SUFFIXES)) return 'government';
+  return 'corporate';
+};
+
+export const detectEmails = (text: string): EmailMatch[] => {
+  const matches: EmailMatch[] = [];
+  let match;
+
+  emailRegex.lastIndex = 0;
+  while ((match = emailRegex.exec(text)) !== null) {
+    const domain = match[0].slice(match[0].lastIndexOf('@') + 1);
+    matches.push({ value: match[0], index: match.index, kind: getEmailDomainKind(domain) });
+  }
+
+  return matches;
+};
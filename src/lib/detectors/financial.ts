@@ -0,0 +1,147 @@
+import { hasContextBefore } from './context';
+
+export type AccountKind = 'card' | 'iban' | 'routing' | 'bank-account';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'jcb' | 'diners' | 'unionpay';
+
+export interface AccountMatch {
+  value: string;
+  index: number;
+  kind: AccountKind;
+  brand?: CardBrand;
+}
+
+interface CardRule {
+  brand: CardBrand;
+  prefix: RegExp;
+  lengths: number[];
+}
+
+export const CARD_RULES: CardRule[] = [
+  { brand: 'amex', prefix: /^3[47]/, lengths: [15] },
+  { brand: 'diners', prefix: /^3(?:0[0-5]|[68])/, lengths: [14, 16, 19] },
+  { brand: 'jcb', prefix: /^35(?:2[89]|[3-8]\d)/, lengths: [16, 17, 18, 19] },
+  { brand: 'visa', prefix: /^4/, lengths: [13, 16, 19] },
+  { brand: 'mastercard', prefix: /^(?:5[1-5]|2(?:2[2-9]|[3-6]\d|7[01]|720))/, lengths: [16] },
+  { brand: 'discover', prefix: /^(?:6011|65|64[4-9])/, lengths: [16, 19] },
+  { brand: 'unionpay', prefix: /^62/, lengths: [16, 17, 18, 19] },
+];
+
+// Total IBAN length per country (ISO 13616 registry)
+export const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24,
+  FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21,
+  HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LI: 21,
+  LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30,
+  NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TN: 24, TR: 26, UA: 29, VG: 24, XK: 20,
+};
+
+const ROUTING_CONTEXT = /\b(?:routing|aba|rtn|transit|rt#|sort code)\b/i;
+const ACCOUNT_CONTEXT = /\b(?:account|acct|a\/c|acc(?:ount)?\.? ?(?:no|num|number|#))\b/i;
+
+const cardRegex = /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g;
+const ibanRegex = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+const routingRegex = /(?<![\d-])\d{9}(?![\d-])/g;
+const bankAccountRegex = /(?<![\d-])\d(?:-?\d){5,16}(?![\d-])/g;
+
+export const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+};
+
+export const getCardBrand = (digits: string): CardBrand | undefined => {
+  return CARD_RULES.find(rule => rule.prefix.test(digits) && rule.lengths.includes(digits.length))?.brand;
+};
+
+// ISO 7064 mod 97-10: move the first four characters to the end, turn letters into numbers
+export const ibanRemainder = (iban: string): number => {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of value) {
+      remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+    }
+  }
+  return remainder;
+};
+
+export const isValidIban = (iban: string): boolean => {
+  const compact = iban.replace(/ /g, '');
+  const expectedLength = IBAN_LENGTHS[compact.slice(0, 2)];
+  return expectedLength === compact.length && ibanRemainder(compact) === 1;
+};
+
+export const routingChecksum = (digits: string): number => {
+  const d = digits.split('').map(digit => parseInt(digit, 10));
+  return (3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8])) % 10;
+};
+
+// Federal Reserve routing symbols: 00-12 (banks), 21-32 (thrifts), 61-72 (electronic), 80 (traveller's cheques)
+export const isValidRoutingNumber = (digits: string): boolean => {
+  const prefix = parseInt(digits.slice(0, 2), 10);
+  const validPrefix = prefix <= 12 || (prefix >= 21 && prefix <= 32) || (prefix >= 61 && prefix <= 72) || prefix === 80;
+  return validPrefix && routingChecksum(digits) === 0;
+};
+
+const overlaps = (claimed: AccountMatch[], index: number, length: number): boolean =>
+  claimed.some(match => index < match.index + match.value.length && match.index < index + length);
+
+export const detectAccounts = (text: string): AccountMatch[] => {
+  const matches: AccountMatch[] = [];
+  let match;
+
+  cardRegex.lastIndex = 0;
+  while ((match = cardRegex.exec(text)) !== null) {
+    const digits = match[0].replace(/[ -]/g, '');
+    const brand = getCardBrand(digits);
+    if (!brand || !passesLuhn(digits)) continue;
+    matches.push({ value: match[0], index: match.index, kind: 'card', brand });
+  }
+
+  ibanRegex.lastIndex = 0;
+  while ((match = ibanRegex.exec(text)) !== null) {
+    // The regex is greedy across spaces, so trim to the country's length before validating
+    const expectedLength = IBAN_LENGTHS[match[0].slice(0, 2)];
+    if (!expectedLength) continue;
+
+    let value = '';
+    let compactLength = 0;
+    for (const char of match[0]) {
+      if (compactLength === expectedLength) break;
+      value += char;
+      if (char !== ' ') compactLength++;
+    }
+    if (!isValidIban(value) || overlaps(matches, match.index, value.length)) continue;
+    matches.push({ value, index: match.index, kind: 'iban' });
+  }
+
+  routingRegex.lastIndex = 0;
+  while ((match = routingRegex.exec(text)) !== null) {
+    if (!isValidRoutingNumber(match[0])) continue;
+    if (!hasContextBefore(text, match.index, ROUTING_CONTEXT, 30)) continue;
+    if (overlaps(matches, match.index, match[0].length)) continue;
+    matches.push({ value: match[0], index: match.index, kind: 'routing' });
+  }
+
+  bankAccountRegex.lastIndex = 0;
+  while ((match = bankAccountRegex.exec(text)) !== null) {
+    if (!hasContextBefore(text, match.index, ACCOUNT_CONTEXT, 30)) continue;
+    if (overlaps(matches, match.index, match[0].length)) continue;
+    matches.push({ value: match[0], index: match.index, kind: 'bank-account' });
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+};
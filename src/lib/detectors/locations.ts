@@ -0,0 +1,141 @@
+import {
+  AMBIGUOUS_PLACES,
+  CITIES,
+  COUNTRIES,
+  POSTAL_FORMATS,
+  REGIONS,
+  type PlaceLevel,
+} from '@/data/gazetteer';
+import { hasContextBefore } from './context';
+import { escapeRegExp } from '@/lib/utils';
+
+export type LocationLevel = PlaceLevel | 'postal';
+
+// The coarsest level that still gets masked: 'city' masks postal codes and cities, 'country' masks everything
+export type LocationGranularity = 'off' | 'city' | 'region' | 'country';
+
+export interface Place {
+  name: string;
+  level: PlaceLevel;
+  country: string;
+  region?: string;
+}
+
+export interface LocationMatch {
+  value: string;
+  index: number;
+  level: LocationLevel;
+  country?: string;
+}
+
+const LEVEL_RANK: Record<LocationLevel, number> = { postal: 0, city: 1, region: 2, country: 3 };
+const GRANULARITY_RANK: Record<LocationGranularity, number> = { off: -1, city: 1, region: 2, country: 3 };
+
+const LOCATING_CUE = /\b(?:in|from|to|near|at|of|around|outside|via|visit(?:ed|ing)?|based|lives?|lived|moved|born|relocated)\s+(?:the\s+)?$/i;
+const POSTAL_CUE = /\b(?:zip(?: code)?|postcode|postal code|post code|plz|cep|pin(?: code)?)\b/i;
+
+const buildIndex = (): Map<string, Place[]> => {
+  const index = new Map<string, Place[]>();
+  const add = (place: Place) => {
+    index.set(place.name, [...(index.get(place.name) ?? []), place]);
+  };
+
+  for (const [name, region, country] of CITIES) add({ name, level: 'city', country, region });
+  for (const region of REGIONS) add({ name: region.name, level: 'region', country: region.country });
+  for (const country of COUNTRIES) {
+    for (const name of [country.name, ...(country.aliases ?? [])]) {
+      add({ name, level: 'country', country: country.code });
+    }
+  }
+
+  return index;
+};
+
+const placeIndex = buildIndex();
+
+const placeRegex = new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${Array.from(placeIndex.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')})(?![\\p{L}\\p{N}])`,
+  'gu'
+);
+
+const regionAbbreviations = new Map(
+  REGIONS.filter(region => region.abbreviation).map(region => [region.abbreviation!, region])
+);
+
+// "Springfield, IL 62704" or "Austin, TX." - abbreviations only count right after a comma
+const regionAbbreviationRegex = /,\s*([A-Z]{2,3})\b(?=\s+\d{5}|\s*(?:[\n.,;)]|$))/g;
+
+export const lookupPlace = (name: string): Place | undefined => {
+  const places = placeIndex.get(name);
+  if (!places) return undefined;
+  return [...places].sort((a, b) => LEVEL_RANK[a.level] - LEVEL_RANK[b.level])[0];
+};
+
+export const getPlaces = (level: PlaceLevel): Place[] =>
+  Array.from(placeIndex.values())
+    .flat()
+    .filter(place => place.level === level);
+
+const isMasked = (level: LocationLevel, granularity: LocationGranularity): boolean =>
+  LEVEL_RANK[level] <= GRANULARITY_RANK[granularity];
+
+const followedByKnownPlace = (text: string, end: number): boolean => {
+  const next = text.slice(end).match(/^,\s*([\p{Lu}][\p{L}. -]+?|[A-Z]{2,3})\b/u);
+  return Boolean(next && (placeIndex.has(next[1]) || regionAbbreviations.has(next[1])));
+};
+
+export const detectLocations = (text: string, granularity: LocationGranularity): LocationMatch[] => {
+  if (granularity === 'off') return [];
+
+  const matches: LocationMatch[] = [];
+  let match;
+
+  placeRegex.lastIndex = 0;
+  while ((match = placeRegex.exec(text)) !== null) {
+    const value = match[0];
+    const place = lookupPlace(value)!;
+    const end = match.index + value.length;
+
+    if (
+      AMBIGUOUS_PLACES.has(value) &&
+      !hasContextBefore(text, match.index, LOCATING_CUE, 20) &&
+      !followedByKnownPlace(text, end)
+    ) {
+      continue;
+    }
+
+    matches.push({ value, index: match.index, level: place.level, country: place.country });
+  }
+
+  regionAbbreviationRegex.lastIndex = 0;
+  while ((match = regionAbbreviationRegex.exec(text)) !== null) {
+    const region = regionAbbreviations.get(match[1]);
+    if (!region) continue;
+    const index = match.index + match[0].length - match[1].length;
+    matches.push({ value: match[1], index, level: 'region', country: region.country });
+  }
+
+  // Ambiguous postal formats (five bare digits) need a place or a "ZIP"-style cue right next to them
+  const claimed = new Set<number>();
+  for (const format of POSTAL_FORMATS) {
+    format.pattern.lastIndex = 0;
+    while ((match = format.pattern.exec(text)) !== null) {
+      if (claimed.has(match.index)) continue;
+      const end = match.index + match[0].length;
+      const placeBefore = matches.some(place => place.index + place.value.length <= match.index && match.index - (place.index + place.value.length) <= 3);
+      const placeAfter = /^\s+[\p{Lu}]/u.test(text.slice(end)) && placeIndex.has(text.slice(end).trim().split(/[\s,]/)[0]);
+      if (!format.standalone && !placeBefore && !placeAfter && !hasContextBefore(text, match.index, POSTAL_CUE, 20)) {
+        continue;
+      }
+      claimed.add(match.index);
+      matches.push({ value: match[0], index: match.index, level: 'postal', country: format.country });
+    }
+  }
+
+  return matches
+    .filter(location => isMasked(location.level, granularity))
+    .sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,269 @@
+import { EAST_ASIAN_HONORIFICS, NAME_LISTS, NAME_PARTICLES, type NameLocale } from '@/data/names';
+import { overlaps } from '@/lib/span-resolution';
+import { escapeRegExp } from '@/lib/utils';
+
+export interface NameMatch {
+  value: string;
+  index: number;
+  // 0-1: how sure the detector is that this is a person's name
+  confidence: number;
+  // Locale whose lists know the given name, or failing that the surname
+  locale?: NameLocale;
+}
+
+export const MIN_NAME_SCORE = 2;
+
+// Maps a scoreName result onto the 0-1 confidence scale shared with the cue-driven pass
+const scoreConfidence = (score: number): number => Math.min(0.95, 0.3 + score * 0.1);
+
+// Lookups ignore case and accents so "Jose Alvarez" matches the list entry "José Álvarez"
+export const normalizeNamePart = (part: string): string =>
+  part.normalize('NFD').replace(/\p{M}/gu, '').replace(/’/g, "'").toLowerCase();
+
+const buildIndex = (pick: (list: (typeof NAME_LISTS)[number]) => string[]): Map<string, NameLocale> => {
+  const index = new Map<string, NameLocale>();
+  for (const list of NAME_LISTS) {
+    for (const name of pick(list)) {
+      // "van der Meer" is also indexed as "Meer", which is how the particle-aware tokenizer sees it
+      for (const key of [name, name.split(' ').pop()]) {
+        const normalized = normalizeNamePart(key);
+        if (!index.has(normalized)) index.set(normalized, list.locale);
+      }
+    }
+  }
+  return index;
+};
+
+const givenNames = buildIndex(list => [...list.female, ...list.male]);
+const surnames = buildIndex(list => list.surnames);
+
+const LETTER = '[\\p{Ll}\\p{M}]';
+// A capitalised word: José, Zoë, O'Neill, McDonald, MacArthur, Jean-Luc, Al-Rashid, d'Artagnan, Иванов.
+// A trailing possessive 's is left out so "Smith's" is detected as "Smith".
+const NAME_WORD =
+  `(?:[dDlL]['’])?(?:Mc|Mac|O['’]|Fitz)?\\p{Lu}${LETTER}+(?:['’](?!s(?![\\p{L}\\p{M}]))${LETTER}+)?(?:-\\p{L}${LETTER}+)*`;
+const INITIAL = '\\p{Lu}\\.';
+const PARTICLE = `(?:${NAME_PARTICLES.map(escapeRegExp).join('|')})(?:\\s+|-)`;
+
+const nameRegex = new RegExp(
+  `(?<![\\p{L}\\p{M}'’-])${NAME_WORD}(?:\\s+(?:(?:${PARTICLE}){0,2}${NAME_WORD}|${INITIAL}))+(?![\\p{L}\\p{M}])`,
+  'gu'
+);
+
+// Scripts without letter case fall back on the surname lists
+const inScript = (names: string[], script: RegExp): string[] => names.filter(name => script.test(name));
+const hanSurnames = inScript(NAME_LISTS.flatMap(list => list.surnames), /^\p{Script=Han}+$/u);
+const hangulSurnames = inScript(NAME_LISTS.flatMap(list => list.surnames), /^\p{Script=Hangul}+$/u);
+const hangulGivenNames = inScript(NAME_LISTS.flatMap(list => [...list.female, ...list.male]), /^\p{Script=Hangul}+$/u);
+const honorific = `\\s?(?:${EAST_ASIAN_HONORIFICS.join('|')})`;
+
+// Longest surnames first so 欧阳 wins over 欧
+const alternation = (names: string[]): string =>
+  [...names].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+// 田中さん / 王先生 on their own, or surname plus a one- or two-character given name standing apart from other Han text
+const hanNameRegex = new RegExp(
+  `(?<!\\p{Script=Han})(?:${alternation(hanSurnames)})(?:(?=${honorific})|(?!${honorific})\\s?\\p{Script=Han}{1,2}(?=${honorific}|[^\\p{Script=Han}]|$))`,
+  'gu'
+);
+// Three-syllable Hangul words are too often ordinary vocabulary, so Korean names need an honorific or a listed given name
+const hangulNameRegex = new RegExp(
+  `(?<!\\p{Script=Hangul})(?:${alternation(hangulSurnames)})(?:\\p{Script=Hangul}{2}(?=${honorific})|(?:${alternation(hangulGivenNames)}))`,
+  'gu'
+);
+
+// Spellings that only occur in surnames and patronymics
+const SURNAME_SHAPE = /^(?:Mc|Mac|O'|Fitz)\p{Lu}|^(?:Al|El)-\p{Lu}|\p{Ll}(?:ович|евич|овна|евна|ов|ова|ев|ева|ин|ина|ский|ская|enko|escu|sson|sen|poulos|ović|ić)$/u;
+
+// The words of a name that carry it, without particles and initials
+export const nameTokens = (value: string): string[] =>
+  value.split(/\s+/).filter(part => !NAME_PARTICLES.includes(part.toLowerCase()) && !/^\p{Lu}\.$/u.test(part));
+
+// "Ludwig van Beethoven" -> given "Ludwig", surname "van Beethoven"
+export const splitName = (value: string): { given: string; surname?: string } => {
+  const words = value.split(/\s+/);
+  const core = nameTokens(value);
+  if (core.length < 2) return { given: core[0] ?? value };
+
+  const last = words.lastIndexOf(core[core.length - 1]);
+  let start = last;
+  while (start > 1 && NAME_PARTICLES.includes(words[start - 1].toLowerCase())) start--;
+  return { given: core[0], surname: words.slice(start, last + 1).join(' ') };
+};
+
+const particleOf = (value: string): boolean =>
+  value.split(/\s+/).some(part => NAME_PARTICLES.includes(part.toLowerCase())) || /(?:^|\s)(?:al|el|d|l)['’-]/i.test(value);
+
+export const scoreName = (value: string): { score: number; locale?: NameLocale } => {
+  const parts = nameTokens(value);
+  if (parts.length === 0) return { score: 0 };
+
+  const first = normalizeNamePart(parts[0]);
+  const last = normalizeNamePart(parts[parts.length - 1]);
+  let score = 0;
+
+  if (givenNames.has(first)) score += 2;
+  if (parts.length > 1 && surnames.has(last)) score += 2;
+  for (const part of parts.slice(1, -1)) {
+    const normalized = normalizeNamePart(part);
+    if (givenNames.has(normalized) || surnames.has(normalized)) score += 1;
+  }
+  if (parts.some(part => SURNAME_SHAPE.test(part.replace(/’/g, "'"))) || particleOf(value)) score += 1;
+  // Capitalised words in sequence are weak evidence on their own
+  if (parts.length > 1) score += 1;
+
+  const locale = givenNames.get(first) ?? (parts.length > 1 ? surnames.get(last) : undefined);
+  return { score, locale };
+};
+
+const isKnownNamePart = (part: string): boolean => {
+  const normalized = normalizeNamePart(part);
+  return givenNames.has(normalized) || surnames.has(normalized);
+};
+
+const SALUTATIONS = ['hi', 'hello', 'hey', 'dear', 'morning', 'greetings', 'hiya', 'thanks'];
+
+// "Yesterday Maria Garcia called", "Hi Sam", "Ask Priya": sentence-initial words get swept into the capitalised
+// run. A greeting or a mention verb is never part of the name; any other word only goes when a listed given name
+// follows it.
+const trimLeadingWords = (value: string): { value: string; offset: number } => {
+  let trimmed = value;
+  let offset = 0;
+  while (true) {
+    const parts = trimmed.split(/\s+/);
+    if (parts.length < 2) break;
+    const lead = parts[0].toLowerCase();
+    const cue = SALUTATIONS.includes(lead) || MENTION_VERBS.includes(lead);
+    if (!cue && (isKnownNamePart(parts[0]) || !givenNames.has(normalizeNamePart(parts[1])))) break;
+    const next = trimmed.indexOf(parts[1], parts[0].length);
+    offset += next;
+    trimmed = trimmed.slice(next);
+  }
+  return { value: trimmed, offset };
+};
+
+const FOLLOWED_BY_NON_PERSON = /^\s+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Inc|LLC|Corp)\b/;
+
+interface NameCue {
+  // The name is the `name` group; everything else in the match is the cue
+  regex: RegExp;
+  confidence: number;
+  // Weak cues only count when the name is in the bundled lists
+  requireKnown: boolean;
+}
+
+// "patient" also matches "Patient" at the start of a sentence
+const cueWords = (words: string[]): string =>
+  words.map(word => `[${word[0].toUpperCase()}${word[0]}]${escapeRegExp(word.slice(1))}`).join('|');
+
+// One to three capitalised words, or a single lowercase word as typed in chat logs
+const CUED_NAME = `(?<name>${NAME_WORD}(?:[ \\t]+(?:(?:${PARTICLE}){0,2}${NAME_WORD}|${INITIAL})){0,2}|\\p{Ll}${LETTER}+)(?![\\p{L}\\p{M}])`;
+
+const HONORIFICS = [
+  'Mr', 'Mrs', 'Ms', 'Miss', 'Mx', 'Dr', 'Prof', 'Sir', 'Dame', 'Lord', 'Lady', 'Rev',
+  'Herr', 'Frau', 'Mme', 'Mlle', 'Sr', 'Sra', 'Srta', 'Sig', 'Dott',
+];
+const ROLE_WORDS = [
+  'patient', 'client', 'customer', 'employee', 'colleague', 'coworker', 'co-worker', 'manager', 'boss', 'supervisor',
+  'tenant', 'landlord', 'student', 'teacher', 'nurse', 'caregiver', 'husband', 'wife', 'partner', 'son', 'daughter',
+  'brother', 'sister', 'mother', 'father', 'mom', 'mum', 'dad', 'friend', 'neighbour', 'neighbor', 'lawyer',
+  'attorney', 'therapist', 'contractor', 'candidate', 'applicant', 'resident', 'member',
+];
+const MENTION_VERBS = [
+  'ask', 'asked', 'tell', 'told', 'ping', 'pinged', 'cc', 'thank', 'message', 'messaged', 'email', 'emailed',
+  'call', 'called', 'remind', 'introduce', 'meet', 'met', 'invite', 'invited', 'spoke to', 'spoke with',
+  'talked to', 'talked with', 'according to', 'loop in',
+];
+const SIGN_OFFS = [
+  'best', 'best regards', 'kind regards', 'warm regards', 'regards', 'thanks', 'thank you', 'many thanks',
+  'cheers', 'sincerely', 'yours sincerely', 'yours truly', 'yours', 'best wishes', 'all the best', 'take care',
+];
+
+const NAME_CUES: NameCue[] = [
+  { regex: new RegExp(`(?<![\\p{L}])(?:${HONORIFICS.join('|')})\\.?[ \\t]+${CUED_NAME}`, 'gu'), confidence: 0.9, requireKnown: false },
+  { regex: new RegExp(`\\b(?:${cueWords(['my name is', "my name's", 'call me'])})[ \\t]+${CUED_NAME}`, 'gu'), confidence: 0.9, requireKnown: false },
+  { regex: new RegExp(`^[ \\t]*(?:${cueWords(SALUTATIONS)}|Good (?:morning|afternoon|evening))[ \\t]+${CUED_NAME}[ \\t]*[,!:]`, 'gmu'), confidence: 0.8, requireKnown: false },
+  { regex: new RegExp(`^[ \\t]*(?:${cueWords(SIGN_OFFS)})[ \\t]*[,.!]?[ \\t]*\\r?\\n[ \\t]*${CUED_NAME}[ \\t]*$`, 'gmu'), confidence: 0.8, requireKnown: false },
+  { regex: new RegExp(`^[ \\t]*(?:--|—)[ \\t]?${CUED_NAME}[ \\t]*$`, 'gmu'), confidence: 0.8, requireKnown: false },
+  { regex: new RegExp(`\\b(?:${cueWords(['my', 'our', 'your', 'his', 'her', 'their', 'the'])})[ \\t]+(?:${cueWords(ROLE_WORDS)}),?[ \\t]+${CUED_NAME}`, 'gu'), confidence: 0.7, requireKnown: false },
+  // Without a determiner, "Project Manager Review" reads like a title
+  { regex: new RegExp(`\\b(?:${cueWords(ROLE_WORDS)}),?[ \\t]+${CUED_NAME}`, 'gu'), confidence: 0.65, requireKnown: true },
+  // Chat logs: "[10:42] priya: can you check"
+  { regex: new RegExp(`^[ \\t]*(?:\\[[^\\]\\n]*\\][ \\t]*)?${CUED_NAME}[ \\t]*:`, 'gmu'), confidence: 0.7, requireKnown: true },
+  { regex: new RegExp(`\\b(?:${cueWords(["this is", "i'm", 'i am', "it's"])})[ \\t]+${CUED_NAME}(?=[ \\t]+(?:from|here|speaking|calling)\\b)`, 'gu'), confidence: 0.75, requireKnown: true },
+  { regex: new RegExp(`\\b(?:${cueWords(MENTION_VERBS)})[ \\t]+${CUED_NAME}`, 'gu'), confidence: 0.6, requireKnown: true },
+];
+
+// Capitalised words that follow cues ("Hi Team,", "customer Support") without being names
+const NON_NAMES = new Set([
+  'team', 'all', 'everyone', 'everybody', 'there', 'sir', 'madam', 'folks', 'guys', 'support', 'service',
+  'services', 'portal', 'success', 'care', 'account', 'record', 'records', 'file', 'files', 'data', 'details',
+  'info', 'information', 'report', 'meeting', 'notes', 'me', 'you', 'him', 'her', 'them', 'us', 'it', 'back',
+  'again', 'today', 'tomorrow', 'soon', 'later', 'now', 'about', 'and', 'the', 'a', 'an', 'in', 'on', 'for',
+]);
+
+const detectCuedNames = (text: string, exclusions: ReadonlySet<string>): NameMatch[] => {
+  const matches: NameMatch[] = [];
+  let match;
+
+  for (const cue of NAME_CUES) {
+    cue.regex.lastIndex = 0;
+    while ((match = cue.regex.exec(text)) !== null) {
+      const value = match.groups.name;
+      const parts = value.split(/\s+/);
+      if (parts.some(part => exclusions.has(part) || NON_NAMES.has(part.toLowerCase()))) continue;
+
+      // Lowercase words are only names when the lists say so
+      const lowercase = /^\p{Ll}/u.test(value);
+      if ((cue.requireKnown || lowercase) && !parts.some(isKnownNamePart)) continue;
+
+      const { locale } = scoreName(value);
+      const index = match.index + match[0].lastIndexOf(value);
+      matches.push({ value, index, confidence: cue.confidence, locale });
+    }
+  }
+
+  return matches;
+};
+
+export const detectNames = (text: string, exclusions: ReadonlySet<string>): NameMatch[] => {
+  const matches: NameMatch[] = [];
+  let match;
+
+  nameRegex.lastIndex = 0;
+  while ((match = nameRegex.exec(text)) !== null) {
+    const { value, offset } = trimLeadingWords(match[0]);
+    const index = match.index + offset;
+    if (FOLLOWED_BY_NON_PERSON.test(text.slice(index + value.length))) continue;
+
+    const parts = value.split(/\s+/);
+    if (parts.some(part => exclusions.has(part)) || parts.some(part => part.length < 2)) continue;
+
+    // Capitalisation alone is not enough ("Quarterly Report"); a run the lists don't know ("Kwame Mensah")
+    // is left to the cue pass below
+    const { score, locale } = scoreName(value);
+    if (score < MIN_NAME_SCORE) continue;
+    matches.push({ value, index, confidence: scoreConfidence(score), locale });
+  }
+
+  for (const regex of [hanNameRegex, hangulNameRegex]) {
+    regex.lastIndex = 0;
+    while ((match = regex.exec(text)) !== null) {
+      const value = match[0];
+      const script: NameLocale = /\p{Script=Hangul}/u.test(value) ? 'ko' : /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text) ? 'ja' : 'zh';
+      matches.push({ value, index: match.index, confidence: scoreConfidence(MIN_NAME_SCORE), locale: script });
+    }
+  }
+
+  // A cue confirms a name the first pass already found, or finds one it could not
+  for (const cued of detectCuedNames(text, exclusions)) {
+    const existing = matches.find(match => overlaps(match, cued));
+    if (existing) {
+      existing.confidence = Math.max(existing.confidence, cued.confidence);
+    } else {
+      matches.push(cued);
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+};
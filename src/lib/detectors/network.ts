@@ -0,0 +1,85 @@
+import { escapeRegExp } from '@/lib/utils';
+
+export type NetworkKind = 'ipv4' | 'ipv6' | 'mac' | 'hostname' | 'url-token';
+
+export interface NetworkMatch {
+  value: string;
+  index: number;
+  kind: NetworkKind;
+}
+
+export const DEFAULT_INTERNAL_DOMAINS = ['internal', 'local', 'localdomain', 'corp', 'lan', 'intranet'];
+
+const ipv4Regex = /(?<![\d.])(?:\d{1,3}\.){3}\d{1,3}(?![\d]|\.\d)/g;
+const ipv6CandidateRegex = /(?<![\w:.])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:]|\.\d)/g;
+const macRegex = /(?<![\w:-])(?:[0-9A-Fa-f]{2}([:-])(?:[0-9A-Fa-f]{2}\1){4}[0-9A-Fa-f]{2}|[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4}\.[0-9A-Fa-f]{4})(?![\w:-])/g;
+const urlTokenRegex = /[?&](?:access_token|id_token|refresh_token|token|api_key|apikey|key|sig|signature|auth|session|sessionid|sid|code|password|secret|jwt)=([^&\s#"'<>]+)/gi;
+
+export const isValidIpv4 = (value: string): boolean =>
+  value.split('.').every(octet => parseInt(octet, 10) <= 255 && !(octet.length > 1 && octet.startsWith('0')));
+
+export const isValidIpv6 = (value: string): boolean => {
+  const halves = value.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.flatMap(half => (half ? half.split(':') : []));
+  if (groups.length === 0 || !groups.every(group => /^[0-9A-Fa-f]{1,4}$/.test(group))) return false;
+
+  // Without "::" every one of the eight groups must be written out
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+};
+
+const hostnameRegex = (domains: string[]): RegExp | null => {
+  const suffixes = domains
+    .map(domain => domain.trim().replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+    .map(escapeRegExp);
+  if (suffixes.length === 0) return null;
+
+  return new RegExp(
+    `(?<![@\\w.-])(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\\.)+(?:${suffixes.join('|')})(?![\\w-]|\\.[a-z0-9])`,
+    'gi'
+  );
+};
+
+const overlaps = (claimed: NetworkMatch[], index: number, length: number): boolean =>
+  claimed.some(match => index < match.index + match.value.length && match.index < index + length);
+
+export const detectNetworkIdentifiers = (text: string, internalDomains: string[]): NetworkMatch[] => {
+  const matches: NetworkMatch[] = [];
+  let match;
+
+  urlTokenRegex.lastIndex = 0;
+  while ((match = urlTokenRegex.exec(text)) !== null) {
+    const value = match[1];
+    matches.push({ value, index: match.index + match[0].length - value.length, kind: 'url-token' });
+  }
+
+  macRegex.lastIndex = 0;
+  while ((match = macRegex.exec(text)) !== null) {
+    if (overlaps(matches, match.index, match[0].length)) continue;
+    matches.push({ value: match[0], index: match.index, kind: 'mac' });
+  }
+
+  ipv4Regex.lastIndex = 0;
+  while ((match = ipv4Regex.exec(text)) !== null) {
+    if (!isValidIpv4(match[0]) || overlaps(matches, match.index, match[0].length)) continue;
+    matches.push({ value: match[0], index: match.index, kind: 'ipv4' });
+  }
+
+  ipv6CandidateRegex.lastIndex = 0;
+  while ((match = ipv6CandidateRegex.exec(text)) !== null) {
+    if (!isValidIpv6(match[0]) || overlaps(matches, match.index, match[0].length)) continue;
+    matches.push({ value: match[0], index: match.index, kind: 'ipv6' });
+  }
+
+  const hostnames = hostnameRegex(internalDomains);
+  if (hostnames) {
+    while ((match = hostnames.exec(text)) !== null) {
+      if (overlaps(matches, match.index, match[0].length)) continue;
+      matches.push({ value: match[0], index: match.index, kind: 'hostname' });
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,105 @@
+import { PHONE_REGIONS, type PhoneRegion } from '@/data/phone-metadata';
+import { hasContextBefore } from './context';
+
+export interface ParsedPhone {
+  // Undefined for a well-formed international number from a country without bundled metadata
+  region?: PhoneRegion;
+  international: boolean;
+  nationalNumber: string;
+  extension?: string;
+}
+
+export interface PhoneMatch {
+  value: string;
+  index: number;
+  country?: string;
+}
+
+export const DEFAULT_PHONE_REGION = 'US';
+
+const PHONE_CONTEXT = /\b(?:phone|tel|telephone|call|called|mobile|cell|fax|whatsapp|sms|text|ring|contact|ph|mob|handy|tél|teléfono|telefone)\b|☎|📞/i;
+const NON_PHONE_CONTEXT = /\b(?:order|invoice|ref|reference|tracking|ticket|po|sku|serial|id|account|acct|case|claim|policy|isbn)\s*(?:no\.?|number|#)?\s*[:#]?\s*$/i;
+
+const candidateRegex = /(?<![\w+])(?:\+|00)?\(?\d{1,4}\)?(?:[ .-]?\(?\d{1,5}\)?){1,6}(?:\s*(?:ext\.?|extension|x|#)\s*\d{1,6})?(?!\w)/gi;
+const extensionRegex = /\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})$/i;
+const dateLike = /^\d{1,4}[-/.]\d{1,2}[-/.]\d{2,4}$/;
+const ipLike = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+const regionsByCallingCode = (code: string): PhoneRegion[] =>
+  PHONE_REGIONS.filter(region => region.callingCode === code);
+
+export const getPhoneRegion = (country: string): PhoneRegion | undefined =>
+  PHONE_REGIONS.find(region => region.country === country);
+
+export const parsePhoneNumber = (value: string, defaultRegion = DEFAULT_PHONE_REGION): ParsedPhone | null => {
+  const extension = value.match(extensionRegex);
+  const main = extension ? value.slice(0, extension.index) : value;
+  const international = /^(?:\+|00)/.test(main);
+  // "+44 (0)20 ..." writes the trunk prefix in brackets; it is not part of the number
+  let digits = main.replace(/\(0\)/, '').replace(/\D/g, '');
+
+  if (international) {
+    if (main.startsWith('00')) digits = digits.slice(2);
+
+    for (let length = 1; length <= 3; length++) {
+      const code = digits.slice(0, length);
+      const nationalNumber = digits.slice(length);
+      const region = regionsByCallingCode(code).find(candidate => candidate.pattern.test(nationalNumber));
+      if (region) return { region, international, nationalNumber, extension: extension?.[1] };
+    }
+
+    // E.164 allows up to 15 digits; unknown countries are accepted on shape alone
+    const knownCode = [1, 2, 3].some(length => regionsByCallingCode(digits.slice(0, length)).length > 0);
+    if (!knownCode && digits.length >= 8 && digits.length <= 15) {
+      return { international, nationalNumber: digits, extension: extension?.[1] };
+    }
+    return null;
+  }
+
+  // National format: the default region wins, then NANP, then any region whose trunk prefix fits
+  const preferred = getPhoneRegion(defaultRegion);
+  const ordered = [
+    ...(preferred ? [preferred] : []),
+    ...PHONE_REGIONS.filter(region => region !== preferred),
+  ];
+
+  for (const region of ordered) {
+    const prefix = region.nationalPrefix;
+    if (prefix && digits.startsWith(prefix) && region.pattern.test(digits.slice(prefix.length))) {
+      return { region, international, nationalNumber: digits.slice(prefix.length), extension: extension?.[1] };
+    }
+
+    // Without a trunk prefix the digits alone are too ambiguous, except for NANP and the user's own region
+    const bareAllowed = region === preferred || region.country === 'US';
+    if (bareAllowed && (!prefix || region.country === 'US') && region.pattern.test(digits)) {
+      return { region, international, nationalNumber: digits, extension: extension?.[1] };
+    }
+  }
+
+  return null;
+};
+
+export const detectPhones = (text: string, defaultRegion = DEFAULT_PHONE_REGION): PhoneMatch[] => {
+  const matches: PhoneMatch[] = [];
+  let match;
+
+  candidateRegex.lastIndex = 0;
+  while ((match = candidateRegex.exec(text)) !== null) {
+    const value = match[0].trim();
+    if (dateLike.test(value) || ipLike.test(value)) continue;
+
+    const parsed = parsePhoneNumber(value, defaultRegion);
+    if (!parsed) continue;
+
+    // "Order #: 212-555-1234" is labelled as something else, whatever the shape
+    if (hasContextBefore(text, match.index, NON_PHONE_CONTEXT, 25)) continue;
+
+    // Formatted numbers stand on their own; a bare digit run needs a phone cue nearby
+    const formatted = parsed.international || /[\s().-]/.test(value);
+    if (!formatted && !hasContextBefore(text, match.index, PHONE_CONTEXT, 30)) continue;
+
+    matches.push({ value, index: match.index, country: parsed.region?.country });
+  }
+
+  return matches;
+};
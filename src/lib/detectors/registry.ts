@@ -0,0 +1,48 @@
+import type { DetectionOptions, SensitiveDataType } from '@/lib/text-processor';
+
+// A span a detector believes is sensitive; substitutes are generated after all detectors have run
+export interface DetectionCandidate {
+  value: string;
+  index: number;
+  // 0-1: how sure the detector is about this span
+  confidence: number;
+  // Defaults to the detector's category; lets one detector report e.g. both 'dob' and 'date'
+  type?: SensitiveDataType;
+  subtype?: string;
+  country?: string;
+  // Fixed substitute, e.g. from a user's template; generated when unset
+  substitute?: string;
+}
+
+export interface DetectionContext {
+  options: DetectionOptions;
+  // Capitalised words that never start or join a name
+  exclusions: ReadonlySet<string>;
+}
+
+export interface Detector {
+  // Unique; registering another detector with the same id replaces it
+  id: string;
+  category: SensitiveDataType;
+  // Higher runs first and wins when candidates from different detectors overlap
+  priority: number;
+  detect: (text: string, context: DetectionContext) => DetectionCandidate[];
+}
+
+const detectors = new Map<string, Detector>();
+
+// Returns a function that removes the detector again
+export const registerDetector = (detector: Detector): (() => void) => {
+  detectors.set(detector.id, detector);
+  return () => {
+    if (detectors.get(detector.id) === detector) detectors.delete(detector.id);
+  };
+};
+
+export const unregisterDetector = (id: string): boolean => detectors.delete(id);
+
+export const getDetector = (id: string): Detector | undefined => detectors.get(id);
+
+// Highest priority first; ties keep registration order
+export const getDetectors = (): Detector[] =>
+  Array.from(detectors.values()).sort((a, b) => b.priority - a.priority);
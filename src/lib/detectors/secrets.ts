@@ -0,0 +1,97 @@
+export type SecretKind =
+  | 'private-key'
+  | 'aws-access-key'
+  | 'github-token'
+  | 'gitlab-token'
+  | 'slack-token'
+  | 'slack-webhook'
+  | 'stripe-key'
+  | 'google-api-key'
+  | 'jwt'
+  | 'authorization-header'
+  | 'connection-string'
+  | 'password'
+  | 'high-entropy';
+
+export interface SecretMatch {
+  value: string;
+  index: number;
+  kind: SecretKind;
+}
+
+interface SecretPattern {
+  kind: SecretKind;
+  // When the pattern has a capture group, only the last group is the secret and it must end the match
+  regex: RegExp;
+}
+
+// Ordered from most to least specific: earlier patterns claim their span first
+const SECRET_PATTERNS: SecretPattern[] = [
+  { kind: 'private-key', regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g },
+  { kind: 'slack-webhook', regex: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9/_-]{20,}/g },
+  { kind: 'aws-access-key', regex: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g },
+  { kind: 'github-token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,251}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { kind: 'gitlab-token', regex: /\bgl(?:pat|dt|rt|ptt|ft|cbt)-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'slack-token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'stripe-key', regex: /\b[rsp]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { kind: 'google-api-key', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'jwt', regex: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  { kind: 'authorization-header', regex: /\bAuthorization["']?\s*[:=]\s*["']?(?:Bearer|Basic|Token|Bot)\s+([A-Za-z0-9._~+/=-]{8,})/gi },
+  { kind: 'authorization-header', regex: /\bBearer\s+([A-Za-z0-9._~+/=-]{16,})/g },
+  {
+    kind: 'connection-string',
+    regex: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver|jdbc:[a-z]+):\/\/[^:\s/@]+:([^\s/]+)(?=@[^@\s/]*(?:[:/\s]|$))/g,
+  },
+  { kind: 'password', regex: /\b(?:passw(?:or)?d|pwd|pass)["']?\s*[:=]\s*["']?([^\s"',;]{6,})/gi },
+];
+
+// Assignment-style "api_key = ..." / "secretToken": "..." where the value is too random to be a word
+const entropyCandidateRegex = /\b[A-Za-z0-9_.-]*(?:key|secret|token|credential|auth)[A-Za-z0-9_.-]*["']?\s*[:=]\s*["']?([A-Za-z0-9+/=_.~-]{16,})/gi;
+
+export const MIN_SECRET_ENTROPY = 3.5;
+
+// Shannon entropy in bits per character
+export const shannonEntropy = (value: string): number => {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+};
+
+const overlaps = (claimed: SecretMatch[], index: number, length: number): boolean =>
+  claimed.some(match => index < match.index + match.value.length && match.index < index + length);
+
+const secretSpan = (match: RegExpExecArray): { value: string; index: number } => {
+  const value = match.length > 1 && match[match.length - 1] !== undefined ? match[match.length - 1] : match[0];
+  return { value, index: match.index + match[0].length - value.length };
+};
+
+export const detectSecrets = (text: string): SecretMatch[] => {
+  const matches: SecretMatch[] = [];
+  let match;
+
+  for (const pattern of SECRET_PATTERNS) {
+    pattern.regex.lastIndex = 0;
+    while ((match = pattern.regex.exec(text)) !== null) {
+      const { value, index } = secretSpan(match);
+      if (overlaps(matches, index, value.length)) continue;
+      matches.push({ value, index, kind: pattern.kind });
+    }
+  }
+
+  entropyCandidateRegex.lastIndex = 0;
+  while ((match = entropyCandidateRegex.exec(text)) !== null) {
+    const { value, index } = secretSpan(match);
+    if (shannonEntropy(value) < MIN_SECRET_ENTROPY) continue;
+    if (!/\d/.test(value) && !/[A-Z]/.test(value)) continue;
+    if (overlaps(matches, index, value.length)) continue;
+    matches.push({ value, index, kind: 'high-entropy' });
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+};
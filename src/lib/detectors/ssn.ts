@@ -0,0 +1,36 @@
+import { hasContextBefore } from './context';
+
+export interface SsnMatch {
+  value: string;
+  index: number;
+}
+
+const SSN_CONTEXT = /\b(?:ssn|ss#|ss no|social security(?: number| no)?|soc\.? sec\.?|taxpayer id|tin)\b/i;
+
+// Dashed or spaced (123-45-6789, 123 45 6789) or unbroken (123456789); the separator must be consistent
+const ssnRegex = /(?<![\d-])(\d{3})([- ]?)(\d{2})\2(\d{4})(?![\d-])/g;
+
+export const isValidSsn = (area: string, group: string, serial: string): boolean => {
+  if (area === '000' || area === '666' || area.startsWith('9')) return false;
+  if (group === '00') return false;
+  if (serial === '0000') return false;
+  return true;
+};
+
+export const detectSsns = (text: string): SsnMatch[] => {
+  const matches: SsnMatch[] = [];
+  let match;
+
+  ssnRegex.lastIndex = 0;
+  while ((match = ssnRegex.exec(text)) !== null) {
+    const [value, area, separator, group, serial] = match;
+    if (!isValidSsn(area, group, serial)) continue;
+
+    // A bare 9-digit run is only an SSN when something nearby says so
+    if (!separator && !hasContextBefore(text, match.index, SSN_CONTEXT)) continue;
+
+    matches.push({ value, index: match.index });
+  }
+
+  return matches;
+};
@@ -0,0 +1,123 @@
+import { GENDERED_TITLES, NAME_LISTS, type NameGender, type NameLocale } from '@/data/names';
+import type { SubstituteLocale } from '@/data/synthetic';
+import { nameTokens, normalizeNamePart } from './detectors/names';
+import { nameCultureFor } from './synthetic-data';
+
+// Probable gender and cultural origin of a person's name, so its substitute can match:
+// "Maria Fernández" becomes another Spanish woman's name and the pronouns in a reply stay right.
+export interface NameProfile {
+  gender?: NameGender;
+  culture?: NameLocale;
+}
+
+const indexLists = (pick: (list: (typeof NAME_LISTS)[number]) => string[]): Map<string, NameLocale[]> => {
+  const index = new Map<string, NameLocale[]>();
+  for (const list of NAME_LISTS) {
+    for (const name of pick(list)) {
+      const key = normalizeNamePart(name);
+      const locales = index.get(key) ?? [];
+      if (!locales.includes(list.locale)) index.set(key, [...locales, list.locale]);
+    }
+  }
+  return index;
+};
+
+const femaleNames = indexLists(list => list.female);
+const maleNames = indexLists(list => list.male);
+const surnames = indexLists(list => list.surnames);
+
+const titleGender = new Map<string, NameGender>(
+  (Object.entries(GENDERED_TITLES) as [NameGender, string[]][]).flatMap(([gender, titles]) =>
+    titles.map(title => [title.toLowerCase(), gender] as [string, NameGender])
+  )
+);
+
+// "Mrs. Fernández" or "Herr Weber": the title in front of the name, when it is one that gives the gender away
+const genderFromTitle = (text: string): NameGender | undefined => {
+  const title = text.match(/(\p{L}+)\.?\s*$/u)?.[1];
+  return title ? titleGender.get(title.toLowerCase()) : undefined;
+};
+
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Scripts without spaces between surname and given name: the given name is what follows the listed surname
+const splitEastAsian = (value: string): { given: string; surname?: string; culture?: NameLocale } => {
+  const compact = value.replace(/\s+/g, '');
+  let best: { surname: string; culture: NameLocale } | undefined;
+  for (const list of NAME_LISTS) {
+    for (const surname of list.surnames) {
+      if (compact.startsWith(surname) && compact.length > surname.length && surname.length > (best?.surname.length ?? 0)) {
+        best = { surname, culture: list.locale };
+      }
+    }
+  }
+  return best ? { given: compact.slice(best.surname.length), ...best } : { given: compact };
+};
+
+const cultureFor = (givenLocales: NameLocale[], surnameLocales: NameLocale[]): NameLocale | undefined =>
+  // A surname says more about origin than a given name shared across languages ("Maria", "Anna")
+  surnameLocales.find(locale => givenLocales.includes(locale)) ?? surnameLocales[0] ?? givenLocales[0];
+
+const genderFor = (given: string, culture?: NameLocale): NameGender | undefined => {
+  const female = femaleNames.get(given) ?? [];
+  const male = maleNames.get(given) ?? [];
+  // "Andrea" is a woman's name in German and a man's in Italian: the name's own culture decides first
+  if (culture && female.includes(culture) !== male.includes(culture)) {
+    return female.includes(culture) ? 'female' : 'male';
+  }
+  if (female.length !== male.length) return female.length > male.length ? 'female' : 'male';
+  return undefined;
+};
+
+// Russian surnames take the holder's gender: Ivanova, Smirnova
+const SLAVIC_FEMALE_SURNAME = /(?:ова|ева|ина|ская|ova|eva|ina|skaya)$/u;
+const SLAVIC_MALE_SURNAME = /(?:ов|ев|ин|ский|ov|ev|sky|ski)$/u;
+// The lists hold the masculine form: Ivanova is looked up as Ivanov
+const SLAVIC_FEMALE_ENDING = /(ов|ев|ин|ov|ev|in)a$/u;
+
+// `before` is the text just ahead of the name, where "Mr." or "Frau" would be
+export const inferNameProfile = (value: string, before = ''): NameProfile => {
+  const title = genderFromTitle(before);
+
+  if (/[\p{Script=Han}\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(value)) {
+    const { given, culture } = splitEastAsian(value);
+    const resolved = KANA.test(value) ? 'ja' : /\p{Script=Hangul}/u.test(value) ? 'ko' : culture ?? 'zh';
+    return { gender: title ?? genderFor(normalizeNamePart(given), resolved), culture: resolved };
+  }
+
+  const words = nameTokens(value);
+  // A title inside the value: "Mr Smith"
+  const ownTitle = words.length > 1 ? titleGender.get(words[0].replace(/\.$/, '').toLowerCase()) : undefined;
+  const parts = ownTitle ? words.slice(1) : words;
+  if (parts.length === 0) return { gender: title ?? ownTitle };
+
+  const given = normalizeNamePart(parts[0]);
+  const surname = parts.length > 1 ? normalizeNamePart(parts[parts.length - 1]) : undefined;
+  const givenLocales = [...(femaleNames.get(given) ?? []), ...(maleNames.get(given) ?? [])];
+  // A lone word may be a surname too: "Mr Smith", "Fernández"
+  const last = surname ?? given;
+  const surnameLocales = surnames.get(last) ?? surnames.get(last.replace(SLAVIC_FEMALE_ENDING, '$1')) ?? [];
+  const culture = ownTitle && parts.length === 1
+    ? surnameLocales[0]
+    : cultureFor(givenLocales, surnameLocales) ?? (/\p{Script=Cyrillic}/u.test(value) ? 'ru' : undefined);
+
+  let gender = title ?? ownTitle ?? genderFor(given, culture);
+  if (!gender && surname && culture === 'ru') {
+    gender = SLAVIC_FEMALE_SURNAME.test(surname) ? 'female' : SLAVIC_MALE_SURNAME.test(surname) ? 'male' : undefined;
+  }
+  return { gender, culture };
+};
+
+// The profile a name's substitute is generated for: what the caller pins down (a user override, or the
+// substitute locale picked in the settings), then what the name and its title suggest, then English
+export const resolveNameProfile = (
+  value: string,
+  pinned: NameProfile & { locale?: SubstituteLocale } = {},
+  before = ''
+): NameProfile & { culture: NameLocale } => {
+  const inferred = inferNameProfile(value, before);
+  return {
+    gender: pinned.gender ?? inferred.gender,
+    culture: pinned.culture ?? (pinned.locale ? nameCultureFor(pinned.locale) : inferred.culture) ?? 'en',
+  };
+};
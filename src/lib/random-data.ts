@@ -1,61 +1,360 @@
 
-// Random data pools for generating realistic substitutes
-const randomNames = [
-  "Michael Carter", "Emma Thompson", "David Wilson", "Sarah Anderson", "James Taylor",
-  "Lisa Morgan", "Robert Davis", "Jennifer White", "William Brown", "Emily Johnson",
-  "John Smith", "Maria Garcia", "Daniel Lee", "Susan Miller", "Richard Moore"
-];
-
-const randomStreets = [
-  "123 Pine Street", "456 Maple Avenue", "789 Oak Road", "321 Cedar Lane", "654 Elm Drive",
-  "987 Birch Court", "147 Willow Way", "258 Cherry Street", "369 Spruce Avenue", "741 Ash Road"
-];
-
-const randomEmails = [
-  "user1@email.com", "contact2@mail.net", "person3@inbox.com", "member4@webmail.com",
-  "account5@mail.org", "info6@email.net", "user7@mail.com", "contact8@inbox.net",
-  "person9@email.org", "member10@mail.com"
-];
-
-const randomPhones = [
-  "(555) 123-4567", "(555) 234-5678", "(555) 345-6789", "(555) 456-7890",
-  "(555) 567-8901", "(555) 678-9012", "(555) 789-0123", "(555) 890-1234"
-];
-
-export const getRandomSubstitute = (type: string, usedValues: Set<string>): string => {
-  let pool: string[] = [];
-  
+import { formatDate, parseDateValue, type CalendarDate, type DateFormat } from './detectors/dates';
+import {
+  CARD_RULES,
+  IBAN_LENGTHS,
+  getCardBrand,
+  ibanRemainder,
+  passesLuhn,
+  routingChecksum,
+  type CardBrand,
+} from './detectors/financial';
+import { getPlaces, lookupPlace } from './detectors/locations';
+import { REGIONS, type PlaceLevel } from '@/data/gazetteer';
+import { parsePhoneNumber } from './detectors/phones';
+import { getEmailDomainKind } from './detectors/email';
+import { resolveNameProfile } from './name-profile';
+import { createKeyedRandom } from './pseudonym';
+import { generateUnique, pickRandom, randomDigits, randomInt, withRandomSource } from './randomness';
+import {
+  DEFAULT_SUBSTITUTE_LOCALE,
+  localeForCountry,
+  syntheticAddress,
+  syntheticMailboxWords,
+  syntheticName,
+} from './synthetic-data';
+import {
+  EDUCATION_SUFFIXES,
+  GOVERNMENT_SUFFIXES,
+  ROLE_MAILBOXES,
+  SUBSTITUTE_ORGANIZATIONS,
+  SUBSTITUTE_WEBMAIL_DOMAINS,
+  type EmailDomainKind,
+} from '@/data/email-domains';
+import type { NameGender, NameLocale } from '@/data/names';
+import type { SubstituteLocale } from '@/data/synthetic';
+
+// What the substitute replaces; generators use it to keep the original's shape
+export interface SubstituteSource {
+  value: string;
+  subtype?: string;
+  country?: string;
+  // Email substitutes keep the original domain and only replace the mailbox
+  keepEmailDomain?: boolean;
+  // Secret that makes the substitute a deterministic function of the value, see createKeyedRandom
+  pseudonymKey?: string;
+  // Locale to write names, addresses and mailboxes in; worked out from the original when unset
+  locale?: SubstituteLocale;
+  // Name substitutes: gender and culture to match; inferred from the original when unset, see resolveNameProfile
+  gender?: NameGender;
+  culture?: NameLocale;
+}
+
+// Structurally valid SSN that keeps the separator style of the original
+const randomSsn = (original: string): string => {
+  const separator = original.match(/\d{3}([- ]?)\d{2}/)?.[1] ?? '-';
+  const area = String(randomInt(1, 665)).padStart(3, '0');
+  const group = String(randomInt(1, 99)).padStart(2, '0');
+  const serial = String(randomInt(1, 9999)).padStart(4, '0');
+  return [area, group, serial].join(separator);
+};
+
+// Writes new digits into the original's layout, keeping spaces, dashes and other separators
+const fillDigits = (template: string, digits: string): string => {
+  let position = 0;
+  return template.replace(/\d/g, () => digits[position++] ?? '0');
+};
+
+// Same character classes as the original: digits stay digits, letters stay letters of the same case
+const randomLike = (original: string): string =>
+  original.replace(/[0-9A-Za-z]/g, char => {
+    if (/\d/.test(char)) return String(randomInt(0, 9));
+    const letter = String.fromCharCode(97 + randomInt(0, 25));
+    return char === char.toUpperCase() ? letter.toUpperCase() : letter;
+  });
+
+const CARD_PREFIXES: Record<CardBrand, () => string> = {
+  visa: () => '4',
+  mastercard: () => `5${randomInt(1, 5)}`,
+  amex: () => (randomInt(0, 1) ? '34' : '37'),
+  discover: () => '6011',
+  jcb: () => `35${randomInt(28, 89)}`,
+  diners: () => '36',
+  unionpay: () => '62',
+};
+
+// Luhn-valid number of the same brand and length, laid out like the original
+const randomCardNumber = (original: string): string => {
+  const digits = original.replace(/\D/g, '');
+  const brand = getCardBrand(digits) ?? 'visa';
+  const rule = CARD_RULES.find(cardRule => cardRule.brand === brand)!;
+  const length = rule.lengths.includes(digits.length) ? digits.length : rule.lengths[0];
+  const prefix = CARD_PREFIXES[brand]();
+  const body = prefix + randomDigits(length - 1 - prefix.length);
+  const checkDigit = [...Array(10).keys()].find(digit => passesLuhn(body + digit))!;
+  return fillDigits(original, body + checkDigit);
+};
+
+// Same country and layout, random BBAN, recomputed check digits
+const randomIban = (original: string): string => {
+  const compact = original.replace(/ /g, '');
+  const country = compact.slice(0, 2);
+  const bban = randomLike(compact.slice(4, IBAN_LENGTHS[country] ?? compact.length)).toUpperCase();
+  const checkDigits = String(98 - ibanRemainder(`${country}00${bban}`)).padStart(2, '0');
+  let position = 0;
+  const iban = `${country}${checkDigits}${bban}`;
+  return original.replace(/[^ ]/g, () => iban[position++] ?? '');
+};
+
+const randomRoutingNumber = (): string => {
+  const prefix = String(randomInt(1, 12)).padStart(2, '0');
+  const body = prefix + randomDigits(6);
+  const checkDigit = (10 - routingChecksum(body + '0')) % 10;
+  return body + checkDigit;
+};
+
+const randomAccount = (source: SubstituteSource): string => {
+  if (CARD_RULES.some(rule => rule.brand === source.subtype)) {
+    return randomCardNumber(source.value);
+  }
+
+  switch (source.subtype) {
+    case 'iban':
+      return randomIban(source.value);
+    case 'routing':
+      return randomRoutingNumber();
+    default:
+      return fillDigits(source.value, randomDigits(source.value.replace(/\D/g, '').length));
+  }
+};
+
+// Another place at the same level, from the same country when the gazetteer has one
+const randomPlace = (source: SubstituteSource): string => {
+  if (source.subtype === 'postal') {
+    return randomLike(source.value);
+  }
+
+  // "IL" should become another abbreviation, not a spelled-out region
+  const abbreviated = REGIONS.find(region => region.abbreviation === source.value);
+  if (abbreviated) {
+    const others = REGIONS.filter(region =>
+      region.abbreviation && region.country === abbreviated.country && region.abbreviation !== source.value
+    );
+    return pickRandom(others).abbreviation!;
+  }
+
+  const original = lookupPlace(source.value);
+  const level = (source.subtype ?? original?.level ?? 'city') as PlaceLevel;
+  const candidates = getPlaces(level).filter(place => place.name !== source.value);
+  const sameCountry = candidates.filter(place => level !== 'country' && place.country === original?.country);
+  return pickRandom(sameCountry.length > 0 ? sameCountry : candidates).name;
+};
+
+// Vendor prefixes are kept so the LLM still knows what kind of credential it is looking at
+const SECRET_PREFIX = /^(?:-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----|https:\/\/hooks\.slack\.com\/\w+\/|AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA|gh[pousr]_|github_pat_|gl[a-z]+-|xox[a-z]-|[rsp]k_(?:live|test)_|AIza|eyJ)/;
+const SECRET_SUFFIX = /-----END [A-Z0-9 ]*PRIVATE KEY-----$/;
+
+const randomSecret = (original: string): string => {
+  const prefix = original.match(SECRET_PREFIX)?.[0] ?? '';
+  const suffix = original.match(SECRET_SUFFIX)?.[0] ?? '';
+  const body = original.slice(prefix.length, original.length - suffix.length);
+  // JWT segments all start with eyJ; keep that so the token still parses as a JWT shape
+  const randomBody = prefix === 'eyJ'
+    ? body.split('.').map((segment, idx) => (idx === 1 ? 'eyJ' + randomLike(segment.slice(3)) : randomLike(segment))).join('.')
+    : randomLike(body);
+  return prefix + randomBody + suffix;
+};
+
+const randomHex = (count: number): string =>
+  Array.from({ length: count }, () => randomInt(0, 15).toString(16)).join('');
+
+// Documentation ranges (RFC 5737 / RFC 3849) and reserved names, so substitutes can never hit a real host
+const DOCUMENTATION_IPV4_PREFIXES = ['192.0.2', '198.51.100', '203.0.113'];
+
+const matchCase = (value: string, original: string): string =>
+  original === original.toUpperCase() && /[A-F]/.test(original) ? value.toUpperCase() : value;
+
+const randomMac = (original: string): string => {
+  // Locally administered, unicast first octet
+  const firstOctet = ((randomInt(0, 63) << 2) | 0x02).toString(16).padStart(2, '0');
+  const hex = firstOctet + randomHex(10);
+  const separator = original.match(/[:-]/)?.[0];
+  const mac = separator
+    ? hex.match(/.{2}/g)!.join(separator)
+    : hex.match(/.{4}/g)!.join('.');
+  return matchCase(mac, original);
+};
+
+const randomNetworkValue = (source: SubstituteSource): string => {
+  switch (source.subtype) {
+    case 'ipv4':
+      return `${pickRandom(DOCUMENTATION_IPV4_PREFIXES)}.${randomInt(1, 254)}`;
+    case 'ipv6':
+      return matchCase(`2001:db8::${randomHex(4).replace(/^0+(?=.)/, '')}:${randomHex(4).replace(/^0+(?=.)/, '')}`, source.value);
+    case 'mac':
+      return randomMac(source.value);
+    case 'hostname':
+      return `host-${randomHex(4)}.example.internal`;
+    default:
+      return randomLike(source.value);
+  }
+};
+
+// New number in the same country and layout as the original; NANP numbers use the fictional 555-01XX block
+const randomPhone = (source: SubstituteSource): string => {
+  const parsed = parsePhoneNumber(source.value, source.country);
+  if (!parsed) return fillDigits(source.value, randomDigits(source.value.replace(/\D/g, '').length));
+
+  const digits = source.value.replace(/\D/g, '');
+  const extensionLength = parsed.extension?.length ?? 0;
+  const nationalStart = digits.length - extensionLength - parsed.nationalNumber.length;
+  const region = parsed.region;
+
+  let nationalNumber: string;
+  if (region?.country === 'US') {
+    // N11 codes (411, 911) are service numbers, never area codes
+    const areaCode = generateUnique(() => `${randomInt(2, 9)}${randomDigits(2)}`, new Set(['211', '311', '411', '511', '611', '711', '811', '911']));
+    nationalNumber = `${areaCode}55501${randomDigits(2)}`;
+  } else {
+    const kept = parsed.nationalNumber.slice(0, region?.keepLeading ?? 0);
+    const generate = () => kept + randomDigits(parsed.nationalNumber.length - kept.length);
+    nationalNumber = generate();
+    for (let attempt = 0; region && !region.pattern.test(nationalNumber) && attempt < 50; attempt++) {
+      nationalNumber = generate();
+    }
+  }
+
+  return fillDigits(
+    source.value,
+    digits.slice(0, nationalStart) + nationalNumber + randomDigits(extensionLength)
+  );
+};
+
+// "Sarah" for "john", "S" for "j", "SARAH" for "JOHN"
+const matchWordCase = (word: string, original: string): string => {
+  if (original.length > 1 && original === original.toUpperCase()) return word.toUpperCase();
+  if (original[0] === original[0].toUpperCase()) return word[0].toUpperCase() + word.slice(1);
+  return word;
+};
+
+// Same separators, initials and digit runs as the original mailbox, with a different person's name
+const randomMailbox = (original: string, locale: SubstituteLocale): string => {
+  const words = syntheticMailboxWords(locale);
+  let position = 0;
+  return original.replace(/[A-Za-z]+|\d+/g, run => {
+    if (/\d/.test(run)) return randomDigits(run.length);
+    const word = words[position++ % words.length];
+    return matchWordCase(run.length === 1 ? word[0] : word, run);
+  });
+};
+
+// Public suffix of a domain, e.g. "co.uk" for "acme.co.uk"; two labels when the second-level one is generic
+const domainSuffix = (domain: string, kind: EmailDomainKind): string => {
+  const listed = kind === 'education' ? EDUCATION_SUFFIXES : kind === 'government' ? GOVERNMENT_SUFFIXES : [];
+  const match = listed.find(suffix => domain === suffix || domain.endsWith(`.${suffix}`));
+  if (match) return match;
+
+  const labels = domain.split('.');
+  const secondLevel = labels[labels.length - 2];
+  const isCountryCode = labels[labels.length - 1].length === 2;
+  return labels.length > 2 && isCountryCode && /^(?:co|com|org|net|ac|gov|ne|or)$/.test(secondLevel)
+    ? labels.slice(-2).join('.')
+    : labels[labels.length - 1];
+};
+
+const randomEmailDomain = (domain: string, kind: EmailDomainKind): string => {
+  const lower = domain.toLowerCase();
+  if (kind === 'webmail') {
+    return pickRandom(SUBSTITUTE_WEBMAIL_DOMAINS.filter(webmail => webmail !== lower));
+  }
+  return `${pickRandom(SUBSTITUTE_ORGANIZATIONS[kind])}.${domainSuffix(lower, kind)}`;
+};
+
+// Keeps the mailbox layout and the kind of domain: free-mail, company, university or government
+const randomEmail = (source: SubstituteSource): string => {
+  const at = source.value.lastIndexOf('@');
+  const mailbox = source.value.slice(0, at);
+  const domain = source.value.slice(at + 1);
+  const kind = (source.subtype as EmailDomainKind) ?? getEmailDomainKind(domain);
+  const topLevel = domain.slice(domain.lastIndexOf('.') + 1).toUpperCase();
+  const locale = source.locale ?? localeForCountry(topLevel === 'UK' ? 'GB' : topLevel) ?? DEFAULT_SUBSTITUTE_LOCALE;
+  if (source.keepEmailDomain) return `${randomMailbox(mailbox, locale)}@${domain}`;
+
+  // "info@" or "support@" says nothing about a person, and once the domain changes it is safe to keep
+  const newMailbox = ROLE_MAILBOXES.has(mailbox.toLowerCase()) ? mailbox : randomMailbox(mailbox, locale);
+  const newDomain = randomEmailDomain(domain, kind);
+  return `${newMailbox}@${domain === domain.toUpperCase() ? newDomain.toUpperCase() : newDomain}`;
+};
+
+const DEFAULT_DATE_FORMAT: DateFormat = {
+  kind: 'numeric', order: 'ymd', separator: '-', padDay: true, padMonth: true, yearDigits: 4,
+};
+
+// Random date rendered the same way as the original; birth dates get a plausible adult birth year
+const randomDate = (original: string, isBirthDate: boolean): string => {
+  const parsed = parseDateValue(original);
+  const format = parsed?.format ?? DEFAULT_DATE_FORMAT;
+  const thisYear = new Date().getFullYear();
+  const year = isBirthDate
+    ? randomInt(thisYear - 80, thisYear - 20)
+    : randomInt((parsed?.date.year ?? thisYear) - 1, (parsed?.date.year ?? thisYear) + 1);
+  const date: CalendarDate = { year, month: randomInt(1, 12), day: randomInt(1, 28) };
+  return formatDate(date, format);
+};
+
+const generateValue = (
+  type: string,
+  usedValues: Set<string>,
+  source: SubstituteSource
+): string => {
+  const original = source.value;
+
   switch (type.toLowerCase()) {
-    case 'name':
-      pool = randomNames;
-      break;
-    case 'address':
-      pool = randomStreets;
-      break;
-    case 'email':
-      pool = randomEmails;
-      break;
+    case 'ssn':
+      return generateUnique(() => randomSsn(original), usedValues);
+    case 'dob':
+      return generateUnique(() => randomDate(original, true), usedValues);
+    case 'date':
+      return generateUnique(() => randomDate(original, false), usedValues);
+    case 'account':
+      return generateUnique(() => randomAccount(source), usedValues);
+    case 'location':
+      return generateUnique(() => randomPlace(source), usedValues);
+    case 'secret':
+      return generateUnique(() => randomSecret(original), usedValues);
+    case 'network':
+      return generateUnique(() => randomNetworkValue(source), usedValues);
     case 'phone':
-      pool = randomPhones;
-      break;
-    default:
-      return `[REDACTED-${type.toUpperCase()}]`;
-  }
-
-  // Filter out already used values
-  const availableValues = pool.filter(value => !usedValues.has(value));
-  
-  if (availableValues.length === 0) {
-    // If all values are used, generate a numbered variant
-    const baseValue = pool[Math.floor(Math.random() * pool.length)];
-    let counter = 1;
-    let newValue = `${baseValue} (${counter})`;
-    while (usedValues.has(newValue)) {
-      counter++;
-      newValue = `${baseValue} (${counter})`;
+      return generateUnique(() => randomPhone(source), usedValues);
+    case 'email':
+      return generateUnique(() => randomEmail(source), usedValues);
+    case 'name': {
+      const { culture, gender } = resolveNameProfile(original, source);
+      return syntheticName(culture, gender, original, usedValues);
+    }
+    case 'address': {
+      const locale = source.locale ?? localeForCountry(source.country) ?? DEFAULT_SUBSTITUTE_LOCALE;
+      return generateUnique(() => syntheticAddress(locale, original), usedValues);
+    }
+    default: {
+      // IDs keep their length and character classes; anything else gets a numbered placeholder
+      if (/\d/.test(original)) return generateUnique(() => randomLike(original), usedValues);
+      let counter = 1;
+      while (usedValues.has(`[REDACTED-${type.toUpperCase()}-${counter}]`)) counter++;
+      return `[REDACTED-${type.toUpperCase()}-${counter}]`;
     }
-    return newValue;
   }
+};
+
+export const getRandomSubstitute = (
+  type: string,
+  usedValues: Set<string>,
+  source: SubstituteSource = { value: '' }
+): string => {
+  if (!source.pseudonymKey) return generateValue(type, usedValues, source);
 
-  return availableValues[Math.floor(Math.random() * availableValues.length)];
+  return withRandomSource(
+    createKeyedRandom(source.pseudonymKey, type.toLowerCase(), source.value),
+    () => generateValue(type, usedValues, source)
+  );
 };
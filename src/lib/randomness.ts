@@ -0,0 +1,32 @@
+// Random source shared by the substitute generators. Math.random by default; swapped for a keyed
+// generator while a pseudonymised substitute is being made, see getRandomSubstitute.
+let source: () => number = Math.random;
+
+export const random = (): number => source();
+
+export const withRandomSource = <T>(next: () => number, generate: () => T): T => {
+  const previous = source;
+  source = next;
+  try {
+    return generate();
+  } finally {
+    source = previous;
+  }
+};
+
+export const randomInt = (min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+export const randomDigits = (count: number): string =>
+  Array.from({ length: count }, () => randomInt(0, 9)).join('');
+
+export const pickRandom = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+// Keeps drawing from a generator until it produces a value not already in use
+export const generateUnique = (generate: () => string, usedValues: Set<string>): string => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const value = generate();
+    if (!usedValues.has(value)) return value;
+  }
+  return generate();
+};
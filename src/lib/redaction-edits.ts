@@ -0,0 +1,101 @@
+import { termSource } from './custom-rules';
+import type { NameProfile } from './name-profile';
+import { getRandomSubstitute } from './random-data';
+import { overlaps } from './span-resolution';
+import {
+  generateSubstitute,
+  setMappingProfile,
+  updateMapping,
+  type DetectedEntity,
+  type SensitiveDataType,
+  type SubstituteDetails,
+} from './text-processor';
+
+const byIndex = (a: DetectedEntity, b: DetectedEntity) => a.index - b.index;
+
+// Where the term occurs as a whole word, the same way a term rule matches: "Al" is not found in "Alice"
+export const findOccurrences = (text: string, value: string): number[] =>
+  value ? Array.from(text.matchAll(new RegExp(termSource(value), 'g')), match => match.index) : [];
+
+// Redacts every occurrence of a term the detectors missed, or only the one at `index`. Occurrences
+// inside an existing redaction are left alone; the term keeps any substitute it already has.
+export const addRedaction = (
+  text: string,
+  entities: DetectedEntity[],
+  value: string,
+  type: SensitiveDataType,
+  index?: number,
+  details: SubstituteDetails = {}
+): DetectedEntity[] => {
+  if (!value) return entities;
+
+  const usedSubstitutes = new Map(entities.map(entity => [entity.value, entity.substitute]));
+  const existing = entities.find(entity => entity.value === value);
+  const starts = index !== undefined
+    ? (text.startsWith(value, index) ? [index] : [])
+    : findOccurrences(text, value);
+  const added = starts
+    .filter(start => !entities.some(entity => overlaps(entity, { index: start, value })))
+    .map((start): DetectedEntity => ({
+      type,
+      value,
+      substitute: existing?.substitute ?? generateSubstitute(type, value, usedSubstitutes, details),
+      index: start,
+      mode: existing ? existing.mode : details.mode,
+      dateShift: existing ? existing.dateShift : details.dateShift,
+    }));
+
+  return added.length === 0 ? entities : [...entities, ...added].sort(byIndex);
+};
+
+// Un-redacts every occurrence of the value, or only the one at `index`
+export const removeRedaction = (entities: DetectedEntity[], value: string, index?: number): DetectedEntity[] =>
+  entities.filter(entity => entity.value !== value || (index !== undefined && entity.index !== index));
+
+// Returns a message describing why the substitute cannot be used for the value, or null when it can
+export const validateSubstitute = (
+  text: string,
+  entities: DetectedEntity[],
+  value: string,
+  substitute: string
+): string | null => {
+  if (!substitute.trim()) return 'Enter a substitute.';
+
+  const owner = entities.find(entity => entity.substitute === substitute && entity.value !== value);
+  if (owner) return `"${substitute}" already replaces "${owner.value}".`;
+  // Restoring swaps every occurrence back, so it must not appear in the original either
+  if (text.includes(substitute)) return `"${substitute}" already appears in the original text.`;
+  return null;
+};
+
+// Without an index every occurrence changes and later detections reuse the new substitute
+export const replaceSubstitute = (
+  entities: DetectedEntity[],
+  value: string,
+  substitute: string,
+  index?: number
+): DetectedEntity[] => {
+  if (index === undefined) updateMapping(value, substitute);
+  return entities.map(entity =>
+    entity.value === value && (index === undefined || entity.index === index) ? { ...entity, substitute } : entity
+  );
+};
+
+// Generates a new substitute for a name with the gender and culture the user picked. The choice is kept
+// in the session mappings, so later detections and key or locale changes honour it.
+export const changeNameProfile = (
+  entities: DetectedEntity[],
+  value: string,
+  profile: NameProfile,
+  details: SubstituteDetails = {}
+): DetectedEntity[] => {
+  const usedValues = new Set(entities.filter(entity => entity.value !== value).map(entity => entity.substitute));
+  const current = entities.find(entity => entity.value === value)?.profile;
+  const pinned = { ...current, ...profile };
+  const substitute = getRandomSubstitute('name', usedValues, { value, ...details, ...pinned });
+
+  setMappingProfile(value, pinned);
+  return replaceSubstitute(entities, value, substitute).map(entity =>
+    entity.value === value ? { ...entity, profile: pinned } : entity
+  );
+};
@@ -0,0 +1,81 @@
+import type { SensitiveDataType } from './text-processor';
+import type { DetectionCandidate } from './detectors/registry';
+
+// A candidate together with what the detector that produced it brings to a conflict
+export interface SpanCandidate extends DetectionCandidate {
+  type: SensitiveDataType;
+  detectorId: string;
+  priority: number;
+}
+
+export interface DiscardedCandidate {
+  candidate: SpanCandidate;
+  // 'overlap': another span won; 'merged': folded into an overlapping span of the same type;
+  // 'allowlisted': the user asked never to redact it
+  reason: 'overlap' | 'merged' | 'allowlisted';
+  // The span that won, for 'overlap' and 'merged'
+  keptBy?: SpanCandidate;
+}
+
+interface Span {
+  index: number;
+  value: string;
+}
+
+const end = (span: Span): number => span.index + span.value.length;
+
+// True when the two spans share at least one character
+export const overlaps = (a: Span, b: Span): boolean => a.index < end(b) && b.index < end(a);
+
+const contains = (outer: SpanCandidate, inner: SpanCandidate): boolean =>
+  outer.index <= inner.index && end(inner) <= end(outer);
+
+// Priority first, then confidence, then the longer span; earlier text breaks remaining ties
+const compareCandidates = (a: SpanCandidate, b: SpanCandidate): number =>
+  b.priority - a.priority ||
+  b.confidence - a.confidence ||
+  b.value.length - a.value.length ||
+  a.index - b.index;
+
+// Picks a set of non-overlapping spans to mask. Partial overlaps between spans of the same type are
+// merged into one span; every other conflict is won by the stronger candidate.
+export const resolveSpans = (
+  text: string,
+  candidates: SpanCandidate[]
+): { accepted: SpanCandidate[]; discarded: DiscardedCandidate[] } => {
+  const accepted: SpanCandidate[] = [];
+  const discarded: DiscardedCandidate[] = [];
+
+  for (const candidate of [...candidates].sort(compareCandidates)) {
+    const conflicts = accepted.filter(span => overlaps(span, candidate));
+    if (conflicts.length === 0) {
+      accepted.push({ ...candidate });
+      continue;
+    }
+
+    const [winner] = conflicts;
+    const mergeable =
+      conflicts.length === 1 &&
+      winner.type === candidate.type &&
+      !contains(winner, candidate) &&
+      !contains(candidate, winner);
+
+    if (mergeable) {
+      const index = Math.min(winner.index, candidate.index);
+      const merged = { ...winner, index, value: text.slice(index, Math.max(end(winner), end(candidate))) };
+      // The union must not run into a third span
+      if (!accepted.some(span => span !== winner && overlaps(span, merged))) {
+        Object.assign(winner, merged, { confidence: Math.max(winner.confidence, candidate.confidence) });
+        discarded.push({ candidate, reason: 'merged', keptBy: winner });
+        continue;
+      }
+    }
+
+    discarded.push({ candidate, reason: 'overlap', keptBy: winner });
+  }
+
+  return {
+    accepted: accepted.sort((a, b) => a.index - b.index),
+    discarded: discarded.sort((a, b) => a.candidate.index - b.candidate.index),
+  };
+};
@@ -0,0 +1,166 @@
+import { COUNTRIES } from '@/data/gazetteer';
+import type { EmailDomainKind } from '@/data/email-domains';
+import type { NameGender } from '@/data/names';
+import { parseDateValue } from './detectors/dates';
+import { lookupPlace } from './detectors/locations';
+import { inferNameProfile } from './name-profile';
+import { generatePseudonymKey, hmacSha256, normalizeForPseudonym } from './pseudonym';
+
+// Substitutes that give the original up for good: masks, hashes and descriptions. Unlike fake data and
+// tokens, none of them can be traced back from the masked text alone.
+
+// "123-45-6789" -> "***-**-6789": the last `keepLast` letters and digits stay, separators keep their place.
+// Values without digits (names, places) are masked entirely.
+export const maskValue = (value: string, keepLast: number): string => {
+  const keep = /\d/.test(value) ? keepLast : 0;
+  let kept = 0;
+  return Array.from(value)
+    .reverse()
+    .map(char => {
+      if (!/[\p{L}\p{N}]/u.test(char)) return char;
+      return kept++ < keep ? char : '*';
+    })
+    .reverse()
+    .join('');
+};
+
+// Without a pseudonymisation key, hashes are salted per session so they cannot be looked up elsewhere
+const SESSION_SALT = generatePseudonymKey();
+
+// "EMAIL-3f9a1c0b2e": the same value always hashes the same under one key, so the LLM can still tell
+// that two mentions are one person
+export const hashValue = (type: string, value: string, pseudonymKey?: string): string => {
+  const encoder = new TextEncoder();
+  const digest = hmacSha256(
+    encoder.encode(pseudonymKey || SESSION_SALT),
+    encoder.encode(`${type}:${normalizeForPseudonym(type, value)}`)
+  );
+  const hex = Array.from(digest.slice(0, 5), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${type.toUpperCase()}-${hex}`;
+};
+
+// "United States" -> "the United States"
+const countryPhrase = (code?: string): string | undefined => {
+  const name = code && COUNTRIES.find(country => country.code === code.toUpperCase())?.name;
+  if (!name) return undefined;
+  return /^(?:United|Netherlands|Philippines|Czech Republic|Dominican Republic)\b/.test(name) ? `the ${name}` : name;
+};
+
+const PERSONS: Record<NameGender, string> = { female: 'a woman', male: 'a man' };
+
+const EMAIL_KINDS: Record<EmailDomainKind, string> = {
+  webmail: 'a personal email address',
+  corporate: 'a work email address',
+  education: 'a university email address',
+  government: 'a government email address',
+};
+
+const SECRETS: Record<string, string> = {
+  'private-key': 'a private key',
+  'connection-string': 'a database connection string',
+  'authorization-header': 'an authorization header',
+  'slack-webhook': 'a webhook URL',
+  password: 'a password',
+};
+
+const NETWORK: Record<string, string> = {
+  ipv4: 'an IP address',
+  ipv6: 'an IP address',
+  mac: 'a MAC address',
+  hostname: 'an internal hostname',
+  'url-token': 'a URL with a token',
+};
+
+const ACCOUNTS: Record<string, string> = {
+  visa: 'a Visa card number',
+  mastercard: 'a Mastercard card number',
+  amex: 'an American Express card number',
+  discover: 'a Discover card number',
+  jcb: 'a JCB card number',
+  diners: 'a Diners Club card number',
+  unionpay: 'a UnionPay card number',
+  card: 'a card number',
+  iban: 'an IBAN',
+  routing: 'a bank routing number',
+  'bank-account': 'a bank account number',
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// "age 40–49" as of `today`
+const ageBand = (value: string, today: Date): string | undefined => {
+  const date = parseDateValue(value)?.date;
+  if (!date) return undefined;
+  const birthdayPassed =
+    today.getMonth() + 1 > date.month || (today.getMonth() + 1 === date.month && today.getDate() >= date.day);
+  const age = today.getFullYear() - date.year - (birthdayPassed ? 0 : 1);
+  if (age < 0) return undefined;
+  const decade = Math.floor(age / 10) * 10;
+  return `age ${decade}–${decade + 9}`;
+};
+
+const placeDescription = (value: string, subtype?: string): string => {
+  if (subtype === 'postal') return 'a postal code';
+  const place = lookupPlace(value);
+  const country = countryPhrase(place?.country);
+  switch (place?.level) {
+    case 'city':
+      return place.region ? `a city in ${place.region}` : country ? `a city in ${country}` : 'a city';
+    case 'region':
+      return country ? `a region of ${country}` : 'a region';
+    case 'country':
+      return 'a country';
+    default:
+      return 'a place';
+  }
+};
+
+export interface GeneralizeSource {
+  value: string;
+  subtype?: string;
+  country?: string;
+  gender?: NameGender;
+}
+
+// What kind of thing was there, without the thing itself: "a woman", "a work email address",
+// "a city in Ohio", "age 40–49"
+export const generalizeValue = (type: string, source: GeneralizeSource, today = new Date()): string => {
+  const { value, subtype, country } = source;
+  switch (type) {
+    case 'name': {
+      const gender = source.gender ?? inferNameProfile(value).gender;
+      return gender ? PERSONS[gender] : 'a person';
+    }
+    case 'email':
+      return EMAIL_KINDS[subtype as EmailDomainKind] ?? 'an email address';
+    case 'phone': {
+      const where = countryPhrase(country);
+      return where ? `a phone number in ${where}` : 'a phone number';
+    }
+    case 'address': {
+      const where = countryPhrase(country);
+      return where ? `a street address in ${where}` : 'a street address';
+    }
+    case 'ssn':
+      return 'a social security number';
+    case 'dob':
+      return ageBand(value, today) ?? 'a date of birth';
+    case 'date': {
+      const date = parseDateValue(value)?.date;
+      return date ? `${MONTH_NAMES[date.month - 1]} ${date.year}` : 'a date';
+    }
+    case 'account':
+      return ACCOUNTS[subtype ?? ''] ?? 'an account number';
+    case 'location':
+      return placeDescription(value, subtype);
+    case 'secret':
+      return SECRETS[subtype ?? ''] ?? 'an access token';
+    case 'network':
+      return NETWORK[subtype ?? ''] ?? 'a network address';
+    default:
+      return 'a redacted value';
+  }
+};
@@ -0,0 +1,175 @@
+import { GENDERED_TITLES, NAME_LISTS, type NameGender, type NameList, type NameLocale } from '@/data/names';
+import { ADDRESS_PARTS, COUNTRY_LOCALES, type SubstituteLocale } from '@/data/synthetic';
+import { nameTokens, normalizeNamePart } from './detectors/names';
+import { pickRandom, randomDigits, randomInt } from './randomness';
+
+export const DEFAULT_SUBSTITUTE_LOCALE: SubstituteLocale = 'en-US';
+
+const NAME_LOCALES: Record<SubstituteLocale, NameLocale> = {
+  'en-US': 'en',
+  'en-GB': 'en',
+  'de-DE': 'de',
+  'fr-FR': 'fr',
+  'es-ES': 'es',
+  'ja-JP': 'ja',
+};
+
+type NameScript = 'cjk' | 'hangul' | 'cyrillic' | 'latin';
+
+const scriptOf = (name: string): NameScript => {
+  if (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(name)) return 'cjk';
+  if (/\p{Script=Hangul}/u.test(name)) return 'hangul';
+  if (/\p{Script=Cyrillic}/u.test(name)) return 'cyrillic';
+  return 'latin';
+};
+
+const nameList = (culture: NameLocale): NameList => NAME_LISTS.find(list => list.locale === culture)!;
+
+// The lists mix scripts (kanji and romaji, Cyrillic and transliterations); a substitute is written in the same
+// script as the original
+const inScript = (names: string[], script: NameScript): string[] => names.filter(name => scriptOf(name) === script);
+
+export const nameCultureFor = (locale: SubstituteLocale): NameLocale => NAME_LOCALES[locale];
+
+export const localeForCountry = (country?: string): SubstituteLocale | undefined =>
+  country ? COUNTRY_LOCALES[country.toUpperCase()] : undefined;
+
+// "JOHN SMITH" -> "MARY JONES"
+const matchCase = (value: string, original: string): string =>
+  /\p{Ll}/u.test(original) || !/\p{Lu}/u.test(original) ? value : value.toUpperCase();
+
+const INITIALS = 'ABCDEFGHJKLMNPRSTW';
+
+const TITLE = new RegExp(`^(?:${[...GENDERED_TITLES.female, ...GENDERED_TITLES.male, 'Dr', 'Prof', 'Mx'].join('|')})\\.?\\s+`, 'u');
+
+// Russian surnames agree with the holder: Ivanov -> Ivanova
+const feminineSurname = (surname: string, culture: NameLocale): string =>
+  culture === 'ru' && /(?:ов|ев|ин|ov|ev|in)$/u.test(surname) ? surname + (/\p{Script=Cyrillic}/u.test(surname) ? 'а' : 'a') : surname;
+
+// Given name and surname of the culture and gender, in the original's shape: a lone given name stays alone,
+// "Mr Smith" keeps its title and only swaps the surname, a middle initial is kept, East Asian names are
+// written surname first. Shapes grow longer once the plain ones are used up. No part of the original is reused:
+// "Jean Dupont" never becomes "Jean Picard".
+export const syntheticName = (
+  culture: NameLocale,
+  gender: NameGender | undefined,
+  original: string,
+  usedValues: Set<string>
+): string => {
+  const title = original.match(TITLE)?.[0] ?? '';
+  const bare = original.slice(title.length);
+  const list = nameList(culture);
+  // A script the culture's lists do not have is written in latin letters
+  const script = inScript(list.surnames, scriptOf(bare)).length > 0 ? scriptOf(bare) : 'latin';
+  const everyone = inScript([...list.female, ...list.male], script);
+  const given = gender ? inScript(list[gender], script) : everyone;
+  const surnames = inScript(list.surnames, script);
+  const tokens = nameTokens(bare);
+  const hasInitial = /(?:^|\s)\p{Lu}\.(?:\s|$)/u.test(bare);
+  const eastAsian = script === 'cjk' || script === 'hangul';
+
+  // East Asian names are often written without a space, so their parts are found inside the whole name
+  const ownParts = new Set(tokens.map(normalizeNamePart));
+  const isOwn = (part: string): boolean =>
+    ownParts.has(normalizeNamePart(part)) || (eastAsian && bare.includes(part));
+  const pickOther = (names: string[], form: (name: string) => string = name => name): string => {
+    const others = names.filter(name => !isOwn(form(name)));
+    return form(pickRandom(others.length > 0 ? others : names));
+  };
+
+  const build = (attempt: number): string => {
+    const first = pickOther(given.length > 0 ? given : everyone);
+    const last = pickOther(surnames, name => (gender === 'female' ? feminineSurname(name, culture) : name));
+    if (eastAsian) {
+      return [last, first].join(/\s/.test(bare) ? ' ' : '');
+    }
+    if (title && tokens.length === 1 && attempt < 300) {
+      return `${title}${last}`;
+    }
+    const single = tokens.length === 1 && attempt < 100;
+    const initial = hasInitial || attempt >= 200 ? ` ${pickRandom(INITIALS.split(''))}.` : '';
+    const surname = attempt >= 300 ? `${last}-${pickOther(surnames)}` : last;
+    return `${title}${single ? first : `${first}${initial} ${surname}`}`;
+  };
+
+  for (let attempt = 0; attempt < 400; attempt++) {
+    const name = matchCase(build(attempt), original);
+    if (!usedValues.has(name) && normalizeNamePart(name) !== normalizeNamePart(original)) return name;
+  }
+  return matchCase(build(400), original);
+};
+
+const asciiWord = (word: string): string =>
+  word.replace(/ß/g, 'ss').normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^a-z]/g, '');
+
+// Lower-case ASCII given name and surname for mailboxes, from the locale's latin-script names
+export const syntheticMailboxWords = (locale: SubstituteLocale): [given: string, surname: string] => {
+  const list = nameList(NAME_LOCALES[locale]);
+  return [
+    asciiWord(pickRandom(inScript([...list.female, ...list.male], 'latin'))),
+    asciiWord(pickRandom(inScript(list.surnames, 'latin'))),
+  ];
+};
+
+const GB_POSTCODE_LETTERS = 'ABDEFGHJLNPQRSTUWXYZ';
+
+const syntheticPostalCode = (locale: SubstituteLocale, prefix: string): string => {
+  switch (locale) {
+    case 'en-GB': {
+      const inward = Array.from({ length: 2 }, () => pickRandom(GB_POSTCODE_LETTERS.split(''))).join('');
+      return `${prefix}${randomInt(1, 20)} ${randomInt(1, 9)}${inward}`;
+    }
+    case 'ja-JP':
+      return `${prefix}-${randomDigits(4)}`;
+    case 'de-DE':
+      return prefix + randomDigits(3);
+    default:
+      return prefix + randomDigits(2);
+  }
+};
+
+const syntheticStreet = (locale: SubstituteLocale, city: [string, string, string]): string => {
+  const { streets, streetTypes } = ADDRESS_PARTS[locale];
+  const street = pickRandom(streets);
+  const type = streetTypes.length > 0 ? pickRandom(streetTypes) : '';
+
+  switch (locale) {
+    case 'de-DE':
+      return `${street}${type} ${randomInt(1, 120)}${randomInt(0, 9) === 0 ? 'a' : ''}`;
+    case 'fr-FR':
+      return `${randomInt(1, 150)} ${type} ${street}`;
+    case 'es-ES':
+      return `${type} ${street}, ${randomInt(1, 150)}`;
+    case 'ja-JP':
+      return `${city[1]}${city[0]}${street}${randomInt(1, 5)}-${randomInt(1, 30)}-${randomInt(1, 20)}`;
+    case 'en-GB':
+      return `${randomInt(1, 250)} ${street} ${type}`;
+    default:
+      return `${randomInt(1, 9999)} ${street} ${type}`;
+  }
+};
+
+const syntheticCityLine = (locale: SubstituteLocale, [city, region, prefix]: [string, string, string]): string => {
+  const postalCode = syntheticPostalCode(locale, prefix);
+  switch (locale) {
+    case 'en-US':
+      return `${city}, ${region} ${postalCode}`;
+    case 'en-GB':
+      return `${city} ${postalCode}`;
+    case 'ja-JP':
+      return `〒${postalCode}`;
+    default:
+      return `${postalCode} ${city}`;
+  }
+};
+
+// A street line in the locale's layout; when the original also has a postal code, a city line as well
+export const syntheticAddress = (locale: SubstituteLocale, original: string): string => {
+  const city = pickRandom(ADDRESS_PARTS[locale].cities);
+  const street = syntheticStreet(locale, city);
+  if (!/\d{5}|\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b|〒/.test(original)) return street;
+
+  const cityLine = syntheticCityLine(locale, city);
+  if (locale === 'ja-JP') return `${cityLine} ${street}`;
+  return `${street}${original.includes('\n') ? '\n' : ', '}${cityLine}`;
+};
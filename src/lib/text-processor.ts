@@ -1,10 +1,26 @@
-export type SensitiveDataType = 'name' | 'email' | 'phone' | 'address' | 'ssn' | 'dob' | 'account' | 'custom';
+export type SensitiveDataType = 'name' | 'email' | 'phone' | 'address' | 'ssn' | 'dob' | 'date' | 'account' | 'location' | 'secret' | 'network' | 'custom';
 
 export interface DetectedEntity {
   type: SensitiveDataType;
   value: string;
   substitute: string;
   index: number;
+  // Finer-grained kind within the category, e.g. a card brand or 'iban' for accounts
+  subtype?: string;
+  // ISO 3166-1 alpha-2 country the value belongs to, where the detector can tell
+  country?: string;
+  // 0-1, set by detectors that weigh evidence rather than match a fixed format
+  confidence?: number;
+  // Full name this partial mention ("John", "Mr. Smith") was linked to, see linkPartialNames
+  linkedTo?: string;
+  // Registry id of the detector that found it; unset for manual redactions
+  detectorId?: string;
+  // Names: the gender and culture the substitute was picked to match
+  profile?: NameProfile;
+  // How the substitute was made; unset means fake data
+  mode?: SubstitutionMode;
+  // Shifted dates: the offset, so restore can move dates the LLM worked out itself back too
+  dateShift?: DateShift;
 }
 
 export interface ValidationResult {
@@ -18,9 +34,30 @@ export interface ValidationResult {
   inconsistentMappings: { value: string; substitutes: string[]; }[];
 }
 
-import { getRandomSubstitute } from './random-data';
-
-const ZERO_WIDTH_SPACE = '\u200C';
+import { escapeRegExp } from './utils';
+import { getRandomSubstitute, type SubstituteSource } from './random-data';
+import { type LocationGranularity } from './detectors/locations';
+import { DEFAULT_INTERNAL_DOMAINS } from './detectors/network';
+import { DEFAULT_PHONE_REGION } from './detectors/phones';
+import { getDetectors, type DetectionCandidate, type DetectionContext } from './detectors/registry';
+import { isAllowlisted, type AllowlistEntry } from './allowlist';
+import { resolveSpans, type DiscardedCandidate, type SpanCandidate } from './span-resolution';
+import { NAME_EXCLUSIONS } from '@/data/exclusions';
+import type { SubstituteLocale } from '@/data/synthetic';
+import { resolveNameProfile, type NameProfile } from './name-profile';
+import { repairWatermarkedSubstitutes, stripZeroWidth, watermarkEntities } from './watermark';
+import { generalizeValue, hashValue, maskValue } from './strategies';
+import {
+  clearDateShifts,
+  dateShiftFor,
+  sameDate,
+  shiftDateValue,
+  unshiftDates,
+  type DateShift,
+  type DateShiftGranularity,
+} from './date-shift';
+import { detectDates, parseDateValue } from './detectors/dates';
+import './detectors/builtin';
 
 const BRACKET_STYLES: Record<SensitiveDataType, { open: string; close: string }> = {
   name: { open: '{', close: '}' },
@@ -29,10 +66,69 @@ const BRACKET_STYLES: Record<SensitiveDataType, { open: string; close: string }>
   address: { open: '⟬', close: '⟭' },
   ssn: { open: '❲', close: '❳' },
   dob: { open: '⟨', close: '⟩' },
+  date: { open: '⁅', close: '⁆' },
   account: { open: '❴', close: '❵' },
+  location: { open: '⦃', close: '⦄' },
+  secret: { open: '⦗', close: '⦘' },
+  network: { open: '⌈', close: '⌉' },
   custom: { open: '「', close: '」' },
 };
 
+// Fake data reads naturally; tokens like {NAME_1} make it obvious to the LLM (and the reader) what was removed.
+// Masks ("***-**-1234"), descriptions ("a city in Ohio") and dropping give the value up for good, see strategies.ts.
+// Dates can also be shifted by one offset for the whole session, see date-shift.ts
+export type SubstitutionMode = 'fake' | 'token' | 'mask' | 'hash' | 'generalize' | 'drop' | 'shift';
+
+// Modes whose substitutes restore maps back to the original; a hash restores within the session that made it
+export const RESTORABLE_MODES: ReadonlySet<SubstitutionMode> = new Set(['fake', 'token', 'hash', 'shift']);
+
+// Shifting only makes sense for categories of dates
+export const SHIFTABLE_TYPES: ReadonlySet<SensitiveDataType> = new Set(['dob', 'date']);
+
+export const isRestorable = (entity: DetectedEntity): boolean => RESTORABLE_MODES.has(entity.mode ?? 'fake');
+
+export const DEFAULT_MASK_KEEP_LAST = 4;
+export const MAX_MASK_KEEP_LAST = 8;
+
+// Stored or typed settings may be anything; a mask never shows more than MAX_MASK_KEEP_LAST characters
+export const clampMaskKeepLast = (keepLast = DEFAULT_MASK_KEEP_LAST): number =>
+  Number.isFinite(keepLast) ? Math.min(MAX_MASK_KEEP_LAST, Math.max(0, Math.floor(keepLast))) : DEFAULT_MASK_KEEP_LAST;
+
+// "{NAME_1}", "⟦EMAIL_2⟧"; a suffix names part of a tokenised name, e.g. "{NAME_1_FIRST}"
+export const formatToken = (type: SensitiveDataType, number: number, suffix?: string): string => {
+  const { open, close } = BRACKET_STYLES[type];
+  return `${open}${type.toUpperCase()}_${number}${suffix ? `_${suffix}` : ''}${close}`;
+};
+
+const TOKEN_TYPES = Object.keys(BRACKET_STYLES).map(type => type.toUpperCase()).join('|');
+const tokenPattern = new RegExp(`^(.)(${TOKEN_TYPES})_(\\d+)(?:_([A-Z]+))?(.)$`, 'u');
+
+export const parseToken = (value: string): { type: SensitiveDataType; number: number; suffix?: string } | null => {
+  const match = value.match(tokenPattern);
+  if (!match) return null;
+  const type = match[2].toLowerCase() as SensitiveDataType;
+  const { open, close } = BRACKET_STYLES[type];
+  if (match[1] !== open || match[5] !== close) return null;
+  return { type, number: Number(match[3]), suffix: match[4] };
+};
+
+const TOKEN_BRACKETS = escapeRegExp(
+  ['[](){}<>', ...Object.values(BRACKET_STYLES).map(style => style.open + style.close)].join('')
+);
+
+// LLMs tend to swap the unusual brackets for ASCII ones or drop them: "[EMAIL_2]", "EMAIL 2", "{name_1}"
+// `live` are substitutes still in the text as written; they stand for their own values and are never a match
+const findRewrittenToken = (text: string, token: string, live: ReadonlySet<string>): string | null => {
+  const parsed = parseToken(token);
+  if (!parsed) return null;
+  const suffix = parsed.suffix ? `[_ ]${parsed.suffix}` : '';
+  const pattern = new RegExp(
+    `[${TOKEN_BRACKETS}]?${parsed.type.toUpperCase()}[_ -]?${parsed.number}${suffix}(?![\\p{L}\\p{N}_])[${TOKEN_BRACKETS}]?`,
+    'giu'
+  );
+  return Array.from(text.matchAll(pattern), match => match[0]).find(match => !live.has(match)) ?? null;
+};
+
 const levenshteinDistance = (a: string, b: string): number => {
   if (a.length === 0) return b.length;
   if (b.length === 0) return a.length;
@@ -56,16 +152,22 @@ const levenshteinDistance = (a: string, b: string): number => {
   return matrix[b.length][a.length];
 };
 
-const findSimilarPlaceholder = (text: string, original: string): string | null => {
-  const cleanText = text.replace(new RegExp(ZERO_WIDTH_SPACE, 'g'), '');
-  const cleanOriginal = original.replace(new RegExp(ZERO_WIDTH_SPACE, 'g'), '');
+// A placeholder-shaped span within a few edits of the missing one. Live substitutes are skipped: {NAME_2} is one
+// edit from {NAME_1}, and "fixing" it would hand the second person's mentions to the first.
+const findSimilarPlaceholder = (text: string, original: string, live: ReadonlySet<string>): string | null => {
+  const cleanText = stripZeroWidth(text);
+  const cleanOriginal = stripZeroWidth(original);
   
-  const potentialPlaceholders = cleanText.match(/[{⟦⟪⟬❲⟨❴][^}⟧⟫⟭❳⟩❵]+[}⟧⟫⟭❳⟩❵]/g) || [];
+  const styles = Object.values(BRACKET_STYLES);
+  const opens = escapeRegExp(styles.map(style => style.open).join(''));
+  const closes = escapeRegExp(styles.map(style => style.close).join(''));
+  const potentialPlaceholders = cleanText.match(new RegExp(`[${opens}][^${closes}]+[${closes}]`, 'g')) || [];
   
   let bestMatch: string | null = null;
   let bestDistance = Infinity;
   
   for (const placeholder of potentialPlaceholders) {
+    if (live.has(placeholder)) continue;
     const distance = levenshteinDistance(placeholder, cleanOriginal);
     if (distance < bestDistance && distance <= 3) { // Allow up to 3 character differences
       bestDistance = distance;
@@ -81,153 +183,293 @@ export interface SubstitutionMapping {
   substitute: string;
   type: SensitiveDataType;
   approved?: boolean;
+  // Key the substitute was derived from; unset when it was picked at random
+  pseudonymKey?: string;
+  // Locale the user picked for it; unset when it followed the original
+  locale?: SubstituteLocale;
+  // Gender and culture the user picked for a name, kept for when the substitute is generated again
+  profile?: NameProfile;
+  mode?: SubstitutionMode;
 }
 
 let currentSessionMappings = new Map<string, SubstitutionMapping>();
 
 export const clearSessionMappings = () => {
   currentSessionMappings.clear();
+  clearDateShifts();
 };
 
-export const generateSubstitute = (
+// Everything a generator may use besides the value; `preferred` is used as is instead of generating
+export type SubstituteDetails = Omit<SubstituteSource, 'value'> & {
+  preferred?: string;
+  mode?: SubstitutionMode;
+  // Mask mode: how many trailing letters and digits stay visible
+  maskKeepLast?: number;
+  // Shift mode: the offset to move the date by
+  dateShift?: DateShift;
+};
+
+// Days that a month shift stands in for when the shifted date is taken
+const DAYS_PER_MONTH = 30.44;
+
+// Month shifts clamp to the end of the month (Jan 30 and Jan 31 both land on Jun 30) and per-person offsets can
+// put two people's dates on one day. Restore needs each substitute to stand for one value, so a date whose shifted
+// form is taken moves by days instead, or failing that gets fake data. So does a date we cannot read.
+const shiftedSubstitute = (value: string, shift: DateShift, usedSubstitutes: Map<string, string>): string | undefined => {
+  const taken = (candidate: string) =>
+    Array.from(usedSubstitutes).some(([other, substitute]) => substitute === candidate && other !== value);
+  const shifts: DateShift[] = shift.unit === 'month'
+    ? [shift, { unit: 'day', amount: Math.round(shift.amount * DAYS_PER_MONTH) }]
+    : [shift];
+  return shifts.map(candidate => shiftDateValue(value, candidate)).find(shifted => shifted !== undefined && !taken(shifted));
+};
+
+// Masks, hashes, descriptions and shifted dates are worked out from the value alone and never enter the
+// session mappings, so switching a category back to fake data brings back the substitute it had before
+const derivedSubstitute = (
   type: SensitiveDataType,
   value: string,
+  details: SubstituteDetails,
   usedSubstitutes: Map<string, string>
+): string | undefined => {
+  switch (details.mode) {
+    case 'shift':
+      return details.dateShift && shiftedSubstitute(value, details.dateShift, usedSubstitutes);
+    case 'mask':
+      return maskValue(value, clampMaskKeepLast(details.maskKeepLast));
+    case 'hash':
+      return hashValue(type, value, details.pseudonymKey);
+    case 'generalize':
+      return generalizeValue(type, { value, ...details });
+    case 'drop':
+      return '';
+    default:
+      return undefined;
+  }
+};
+
+// Lowest-numbered token of the category that no other value holds, in this text or earlier in the session
+const nextToken = (type: SensitiveDataType, usedSubstitutes: Map<string, string>): string => {
+  const taken = new Set([...usedSubstitutes.values(), ...Array.from(currentSessionMappings.values(), mapping => mapping.substitute)]);
+  let number = 1;
+  while (taken.has(formatToken(type, number))) number++;
+  return formatToken(type, number);
+};
+
+export const generateSubstitute = (
+  type: SensitiveDataType,
+  value: string,
+  usedSubstitutes: Map<string, string>,
+  details: SubstituteDetails = {}
 ): string => {
+  const derived = details.preferred === undefined ? derivedSubstitute(type, value, details, usedSubstitutes) : undefined;
+  if (derived !== undefined) {
+    usedSubstitutes.set(value, derived);
+    return derived;
+  }
+
   const existingMapping = currentSessionMappings.get(value);
-  if (existingMapping) {
+  // A preferred substitute (from a user rule's template) replaces whatever was generated before,
+  // and so does one generated under a different pseudonymisation key, locale or mode
+  if (
+    existingMapping &&
+    (!details.preferred || existingMapping.substitute === details.preferred) &&
+    (details.preferred ||
+      (existingMapping.pseudonymKey === details.pseudonymKey &&
+        existingMapping.locale === details.locale &&
+        (existingMapping.mode ?? 'fake') === (details.mode ?? 'fake')))
+  ) {
     return existingMapping.substitute;
   }
 
   const usedValues = new Set(usedSubstitutes.values());
-  const substitute = getRandomSubstitute(type, usedValues);
+  const { preferred, mode, ...source } = details;
+  const substitute = preferred ?? (mode === 'token'
+    ? nextToken(type, usedSubstitutes)
+    : getRandomSubstitute(type, usedValues, { value, ...source }));
   
   currentSessionMappings.set(value, {
     original: value,
     substitute,
     type,
-    approved: false
+    approved: false,
+    pseudonymKey: details.pseudonymKey,
+    locale: details.locale,
+    mode,
   });
   
   usedSubstitutes.set(value, substitute);
   return substitute;
 };
 
-export const detectSensitiveData = (text: string): DetectedEntity[] => {
-  const entities: DetectedEntity[] = [];
-  const usedSubstitutes = new Map<string, string>();
-  
-  // Comprehensive exclusion list
-  const exclusions = new Set([
-    // Months and Days
-    'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
-    'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
-    
-    // Companies and Brands
-    'Samsung', 'Apple', 'Google', 'Microsoft', 'Amazon', 'Facebook', 'Twitter', 'LinkedIn', 'Instagram',
-    
-    // Street Types
-    'Street', 'Avenue', 'Road', 'Boulevard', 'Lane', 'Drive', 'Circle', 'Court', 'Way', 'Place',
-    'St', 'Ave', 'Rd', 'Blvd', 'Ln', 'Dr', 'Cir', 'Ct', 'Pl',
-    
-    // Business Terms
-    'Inc', 'LLC', 'Corp', 'Corporation', 'Company', 'Limited', 'International', 'Industries',
-    
-    // Locations and Institutions
-    'New', 'York', 'City', 'Los', 'Angeles', 'San', 'Francisco', 'Chicago', 'Boston', 'Seattle',
-    'North', 'South', 'East', 'West', 'Central', 'University', 'College', 'Institute', 'School',
-    'Medical', 'Hospital', 'Center', 'Department',
-    
-    // Common Phrases and Terms
-    'Social', 'Security', 'Medicare', 'Medicaid', 'Administration', 'Government',
-    'There', 'That', 'This', 'Been', 'Done', 'Made', 'Corporate', 'Public', 'Private',
-    'Northwestern', 'Southern', 'Eastern', 'Western', 'National', 'International',
-    
-    // Common Business Names
-    'Bean', 'Coffee', 'Cafe', 'Restaurant', 'Shop', 'Store', 'Market', 'Bank', 'Financial',
-    
-    // States
-    'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut',
-    'Delaware', 'Florida', 'Georgia', 'Hawaii', 'Idaho', 'Illinois', 'Indiana', 'Iowa',
-    'Kansas', 'Kentucky', 'Louisiana', 'Maine', 'Maryland', 'Massachusetts', 'Michigan',
-    'Minnesota', 'Mississippi', 'Missouri', 'Montana', 'Nebraska', 'Nevada', 'Hampshire',
-    'Jersey', 'Mexico', 'Dakota', 'Ohio', 'Oklahoma', 'Oregon', 'Pennsylvania', 'Rhode',
-    'Island', 'Carolina', 'Tennessee', 'Texas', 'Utah', 'Vermont', 'Virginia', 'Washington',
-    'Wisconsin', 'Wyoming'
-  ]);
-
-  // Improved name detection pattern
-  const nameRegex = /\b[A-Z][a-z]+(?:\s+(?:[A-Z][a-z]+|[A-Z]\.)){1,2}\b(?!\s+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Inc|LLC|Corp))/g;
-  let match;
-  while ((match = nameRegex.exec(text)) !== null) {
-    const value = match[0];
-    const nameParts = value.split(/\s+/);
-    const isExcluded = nameParts.some(part => exclusions.has(part));
-    
-    // Additional validation to ensure it's likely a real name
-    const isLikelyName = (
-      nameParts.length >= 2 && // Must have at least two parts
-      nameParts.every(part => part.length >= 2) && // Each part must be at least 2 chars
-      !value.includes('University') && // Additional specific exclusions
-      !value.includes('College') &&
-      !value.includes('School') &&
-      !value.includes('Hospital')
-    );
-    
-    if (!isExcluded && isLikelyName) {
-      entities.push({
-        type: 'name',
-        value,
-        substitute: generateSubstitute('name', value, usedSubstitutes),
-        index: match.index,
-      });
+export interface DetectionOptions {
+  // Redact every date, not just the ones that look like birth dates
+  redactAllDates: boolean;
+  // Coarsest kind of place name to mask; finer ones (postal codes, cities) are masked too
+  locationGranularity: LocationGranularity;
+  // Hostnames under these domains are treated as internal and redacted
+  internalDomains: string[];
+  // Country assumed for phone numbers written without an international prefix
+  defaultPhoneRegion: string;
+  // Terms the user never wants redacted, whichever detector finds them
+  allowlist: AllowlistEntry[];
+  // Email substitutes keep the real domain, e.g. "jane.doe@acme.com" -> "emma.thompson@acme.com"
+  keepEmailDomains: boolean;
+  // When set, substitutes are derived from this secret so the same value gets the same pseudonym everywhere
+  pseudonymKey: string;
+  // Locale of generated names and addresses; 'auto' follows each original value
+  substituteLocale: SubstituteLocale | 'auto';
+  // Categories not listed get fake data
+  substitutionModes: Partial<Record<SensitiveDataType, SubstitutionMode>>;
+  // Hide an ID in each substitute of the masked text so restore survives rewording, see watermark.ts
+  watermarkSubstitutes: boolean;
+  // Characters left visible at the end of masked values, e.g. 4 for "****-****-****-1234"
+  maskKeepLast: number;
+  // Shifted dates move by whole days, weeks (keeping weekdays) or months (keeping the day of the month)
+  dateShiftGranularity: DateShiftGranularity;
+  // Each person's dates get their own offset, picked by the nearest name before the date
+  dateShiftPerPerson: boolean;
+}
+
+export const DEFAULT_DETECTION_OPTIONS: DetectionOptions = {
+  redactAllDates: false,
+  locationGranularity: 'city',
+  internalDomains: DEFAULT_INTERNAL_DOMAINS,
+  defaultPhoneRegion: DEFAULT_PHONE_REGION,
+  allowlist: [],
+  keepEmailDomains: false,
+  pseudonymKey: '',
+  substituteLocale: 'auto',
+  substitutionModes: {},
+  watermarkSubstitutes: false,
+  maskKeepLast: DEFAULT_MASK_KEEP_LAST,
+  dateShiftGranularity: 'day',
+  dateShiftPerPerson: false,
+};
+
+// The generator settings among the detection options, for a value of the given category. `person` is whose
+// date it is, when dates are shifted per person.
+export const substituteDetailsFor = (
+  options: DetectionOptions,
+  type: SensitiveDataType,
+  person?: string
+): SubstituteDetails => ({
+  mode: options.substitutionModes[type],
+  keepEmailDomain: options.keepEmailDomains,
+  pseudonymKey: options.pseudonymKey || undefined,
+  locale: options.substituteLocale === 'auto' ? undefined : options.substituteLocale,
+  maskKeepLast: clampMaskKeepLast(options.maskKeepLast),
+  dateShift: options.substitutionModes[type] === 'shift'
+    ? dateShiftFor(
+      options.dateShiftGranularity,
+      options.dateShiftPerPerson ? person : undefined,
+      options.pseudonymKey || undefined
+    )
+    : undefined,
+});
+
+// The person a date at `index` belongs to: the closest name before it in the same paragraph, as its full
+// name when it is a shortened mention ("Sarah" after "Sarah Johnson")
+const personBefore = (text: string, spans: SpanCandidate[], index: number): string | undefined => {
+  const names = spans.filter(span => span.type === 'name' && span.index < index);
+  const nearest = names[names.length - 1];
+  if (!nearest || /\n\s*\n/.test(text.slice(nearest.index, index))) return undefined;
+  const word = new RegExp(`(?<![\\p{L}\\p{M}])${escapeRegExp(nearest.value)}(?![\\p{L}\\p{M}])`, 'u');
+  return names.find(name => name.value !== nearest.value && word.test(name.value))?.value ?? nearest.value;
+};
+
+export interface DetectionResult {
+  entities: DetectedEntity[];
+  // Candidates that lost an overlap to another span, kept for the debug view
+  discarded: DiscardedCandidate[];
+  // Ids of detectors that threw; whatever they look for may still be in the text
+  failedDetectors: string[];
+}
+
+export const detectSensitiveDataWithDiagnostics = (
+  text: string,
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): DetectionResult => {
+  const candidates: SpanCandidate[] = [];
+  const allowlisted: DiscardedCandidate[] = [];
+  const failedDetectors: string[] = [];
+  const context: DetectionContext = { options, exclusions: NAME_EXCLUSIONS };
+
+  for (const detector of getDetectors()) {
+    let detected: DetectionCandidate[];
+    try {
+      detected = detector.detect(text, context);
+    } catch {
+      // A broken org-specific detector should not take the built-in ones down with it
+      failedDetectors.push(detector.id);
+      continue;
     }
-  }
 
-  // Email pattern (unchanged)
-  const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
-  while ((match = emailRegex.exec(text)) !== null) {
-    const value = match[0];
-    entities.push({
-      type: 'email',
-      value,
-      substitute: generateSubstitute('email', value, usedSubstitutes),
-      index: match.index,
-    });
+    for (const candidate of detected) {
+      const span: SpanCandidate = {
+        ...candidate,
+        type: candidate.type ?? detector.category,
+        detectorId: detector.id,
+        priority: detector.priority,
+      };
+      if (isAllowlisted(options.allowlist, span)) {
+        allowlisted.push({ candidate: span, reason: 'allowlisted' });
+      } else {
+        candidates.push(span);
+      }
+    }
   }
 
-  // Phone number pattern (unchanged)
-  const phoneRegex = /(?:\+\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g;
-  while ((match = phoneRegex.exec(text)) !== null) {
-    const value = match[0];
-    entities.push({
-      type: 'phone',
+  // Substitutes are only generated for spans that survive, so losers never reach the session mappings
+  const { accepted, discarded } = resolveSpans(text, candidates);
+  const usedSubstitutes = new Map<string, string>();
+  const entities = accepted.map(({ type, value, index, subtype, country, confidence, detectorId, substitute }): DetectedEntity => {
+    const person = SHIFTABLE_TYPES.has(type) ? personBefore(text, accepted, index) : undefined;
+    const details: SubstituteDetails = { ...substituteDetailsFor(options, type, person), subtype, country, preferred: substitute };
+    // A title just ahead of the name ("Mrs. Fernández") settles its gender
+    const profile = type === 'name'
+      ? resolveNameProfile(value, { ...details, ...currentSessionMappings.get(value)?.profile }, text.slice(Math.max(0, index - 12), index))
+      : undefined;
+    return {
+      type,
       value,
-      substitute: generateSubstitute('phone', value, usedSubstitutes),
-      index: match.index,
-    });
-  }
+      substitute: generateSubstitute(type, value, usedSubstitutes, { ...details, ...profile }),
+      index,
+      subtype,
+      country,
+      confidence,
+      detectorId,
+      profile,
+      // A rule's own template wins over the category's mode
+      mode: substitute === undefined ? details.mode : undefined,
+      dateShift: substitute === undefined ? details.dateShift : undefined,
+    };
+  });
 
-  // More specific address pattern
-  const addressRegex = /\b\d+(?:\s+[A-Za-z]+)+(?:\s+(?:Avenue|Ave|Street|St|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Circle|Cir|Court|Ct|Way|Place|Pl))\b(?!\s+(?:January|February|March|April|May|June|July|August|September|October|November|December))/gi;
-  while ((match = addressRegex.exec(text)) !== null) {
-    const value = match[0];
-    entities.push({
-      type: 'address',
-      value,
-      substitute: generateSubstitute('address', value, usedSubstitutes),
-      index: match.index,
-    });
-  }
+  return {
+    entities,
+    discarded: [...allowlisted, ...discarded].sort((a, b) => a.candidate.index - b.candidate.index),
+    failedDetectors,
+  };
+};
 
-  return entities.sort((a, b) => a.index - b.index);
+export const detectSensitiveData = (
+  text: string,
+  options: DetectionOptions = DEFAULT_DETECTION_OPTIONS
+): DetectedEntity[] => {
+  return detectSensitiveDataWithDiagnostics(text, options).entities;
 };
 
-export const maskText = (text: string, entities: DetectedEntity[]): string => {
+// With `watermark`, every substitute carries an invisible ID, see watermark.ts
+export const maskText = (text: string, entities: DetectedEntity[], watermark = false): string => {
   let maskedText = text;
-  const sortedEntities = [...entities].sort((a, b) => b.index - a.index);
+  const sortedEntities = (watermark ? watermarkEntities(entities) : [...entities]).sort((a, b) => b.index - a.index);
+  // Start of the leftmost span replaced so far; an entity reaching past it would splice into a substitute
+  let maskedFrom = text.length;
   
   for (const entity of sortedEntities) {
+    if (entity.index + entity.value.length > maskedFrom) continue;
+    maskedFrom = entity.index;
     maskedText = 
       maskedText.substring(0, entity.index) +
       entity.substitute +
@@ -252,28 +494,140 @@ export const validatePlaceholdersDetailed = (
     inconsistentMappings: []
   };
 
-  for (const entity of entities) {
-    if (!maskedText.includes(entity.substitute)) {
-      result.missingPlaceholders.push(entity.substitute);
-      result.recoverable = false;
+  // Watermarked substitutes are found however the LLM rewrote them
+  const text = repairWatermarkedSubstitutes(maskedText, entities);
+  // Irreversible substitutes have nothing to restore, so the LLM is free to reword or drop them
+  const substitutes = new Set(entities.filter(isRestorable).map(entity => entity.substitute));
+  const shiftedDates = new Set(entities.filter(entity => entity.mode === 'shift').map(entity => entity.substitute));
+  const live = new Set(Array.from(substitutes).filter(substitute => text.includes(substitute)));
+  const lowerText = text.toLowerCase();
+
+  for (const substitute of substitutes) {
+    if (text.includes(substitute)) continue;
+
+    // The LLM may have re-cased a substitute ("michael carter") - still restorable once fixed
+    const caseInsensitiveIndex = lowerText.indexOf(substitute.toLowerCase());
+    if (caseInsensitiveIndex !== -1) {
+      const modified = text.slice(caseInsensitiveIndex, caseInsensitiveIndex + substitute.length);
+      result.alteredPlaceholders.push(substitute);
+      result.suggestedFixes.push({ original: substitute, modified });
+      continue;
     }
+
+    // A shifted date the LLM wrote another way ("March 2, 2031") is moved back like any date it worked out
+    if (shiftedDates.has(substitute)) {
+      const date = parseDateValue(substitute)?.date;
+      if (date && detectDates(text).some(found => sameDate(found.date, date))) continue;
+    }
+
+    const similar = findRewrittenToken(text, substitute, live) ?? findSimilarPlaceholder(text, substitute, live);
+    if (similar) {
+      result.alteredPlaceholders.push(substitute);
+      result.suggestedFixes.push({ original: substitute, modified: similar });
+      continue;
+    }
+
+    result.missingPlaceholders.push(substitute);
+    result.recoverable = false;
   }
 
-  result.isValid = result.missingPlaceholders.length === 0;
+  result.isValid = result.missingPlaceholders.length === 0 && result.alteredPlaceholders.length === 0;
   return result;
 };
 
+export const applySuggestedFixes = (
+  text: string,
+  fixes: ValidationResult['suggestedFixes']
+): string => {
+  let fixedText = text;
+
+  for (const fix of fixes) {
+    fixedText = fixedText.split(fix.modified).join(fix.original);
+  }
+
+  return fixedText;
+};
+
+export interface RestoredSpan {
+  index: number;
+  length: number;
+  entity: DetectedEntity;
+}
+
+export const restoreTextWithSpans = (
+  response: string,
+  entities: DetectedEntity[]
+): { text: string; spans: RestoredSpan[] } => {
+  const maskedText = repairWatermarkedSubstitutes(response, entities);
+  const bySubstitute = new Map<string, DetectedEntity>();
+  for (const entity of entities) {
+    // A mask or description may appear in the response by coincidence ("a man"); it never stands for the original
+    if (entity.substitute && isRestorable(entity) && !bySubstitute.has(entity.substitute)) {
+      bySubstitute.set(entity.substitute, entity);
+    }
+  }
+
+  if (bySubstitute.size === 0) {
+    return { text: maskedText, spans: [] };
+  }
+
+  // Longest first so "Michael Carter" wins over a shorter substitute it contains; whole words only, so
+  // the substitute "Dan" leaves "Danger" alone
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${Array.from(bySubstitute.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})(?![\\p{L}\\p{N}_])`,
+    'gu'
+  );
+
+  const spans: RestoredSpan[] = [];
+  let text = '';
+  let lastIndex = 0;
+  let match;
+
+  // When every date was shifted, other dates in the response were worked out by the LLM ("two weeks after ..."),
+  // and move back by the offset of the last shifted date before them. With only birth dates shifted, the rest
+  // of the dates were never touched.
+  let shift = entities.find(entity => entity.type === 'date' && entity.mode === 'shift' && entity.dateShift)?.dateShift;
+  const appendUnmatched = (unmatched: string) => {
+    if (!shift) {
+      text += unmatched;
+      return;
+    }
+    const unshifted = unshiftDates(unmatched, shift);
+    for (const date of unshifted.dates) {
+      const entity: DetectedEntity = {
+        type: 'date',
+        value: date.value,
+        substitute: date.shifted,
+        index: -1,
+        mode: 'shift',
+        dateShift: shift,
+      };
+      spans.push({ index: text.length + date.index, length: date.value.length, entity });
+    }
+    text += unshifted.text;
+  };
+
+  while ((match = pattern.exec(maskedText)) !== null) {
+    const entity = bySubstitute.get(match[0])!;
+    appendUnmatched(maskedText.slice(lastIndex, match.index));
+    spans.push({ index: text.length, length: entity.value.length, entity });
+    text += entity.value;
+    lastIndex = match.index + match[0].length;
+    if (shift && entity.mode === 'shift' && entity.dateShift) shift = entity.dateShift;
+  }
+
+  appendUnmatched(maskedText.slice(lastIndex));
+  return { text, spans };
+};
+
 export const restoreText = (
   maskedText: string,
   entities: DetectedEntity[]
 ): string => {
-  let restoredText = maskedText;
-  
-  for (const entity of entities) {
-    restoredText = restoredText.replace(entity.substitute, entity.value);
-  }
-  
-  return restoredText;
+  return restoreTextWithSpans(maskedText, entities).text;
 };
 
 export const validatePlaceholders = (
@@ -297,6 +651,14 @@ export const updateMapping = (original: string, newSubstitute: string) => {
   }
 };
 
+export const setMappingProfile = (original: string, profile: NameProfile) => {
+  const mapping = currentSessionMappings.get(original);
+  if (mapping) {
+    mapping.profile = profile;
+    currentSessionMappings.set(original, mapping);
+  }
+};
+
 export const approveMapping = (original: string) => {
   const mapping = currentSessionMappings.get(original);
   if (mapping) {
@@ -305,6 +667,22 @@ export const approveMapping = (original: string) => {
   }
 };
 
+// Restorable substitutes standing for more than one value; restore could only give one of them back
+export const findAmbiguousSubstitutes = (entities: DetectedEntity[]): string[] => {
+  const owners = new Map<string, string>();
+  const ambiguous = new Set<string>();
+  for (const entity of entities) {
+    if (!entity.substitute || !isRestorable(entity)) continue;
+    const owner = owners.get(entity.substitute);
+    if (owner === undefined) {
+      owners.set(entity.substitute, entity.value);
+    } else if (owner !== entity.value) {
+      ambiguous.add(entity.substitute);
+    }
+  }
+  return Array.from(ambiguous);
+};
+
 export const validateSubstitutions = (entities: DetectedEntity[]): ValidationResult => {
   const result: ValidationResult = {
     isValid: true,
@@ -321,7 +699,8 @@ export const validateSubstitutions = (entities: DetectedEntity[]): ValidationRes
   const valueMappings = new Map<string, Set<string>>();
 
   for (const entity of entities) {
-    // Check for duplicate substitutes
+    // Check for duplicate substitutes; masks and descriptions are meant to repeat
+    if (!isRestorable(entity)) continue;
     if (!substituteCounts.has(entity.substitute)) {
       substituteCounts.set(entity.substitute, [entity.value]);
     } else {
@@ -0,0 +1,93 @@
+import { escapeRegExp } from './utils';
+import { isRestorable, type DetectedEntity } from './text-processor';
+
+// Invisible IDs inside substitutes. Right after its first character, each substitute in the masked text
+// carries its number as zero-width bits between two word joiners. The mark travels with the word, so
+// restore still knows which substitute it was after the LLM re-cases it ("MICHAEL CARTER"), runs it
+// together ("MichaelCarter") or shortens it ("Michael's").
+const MARK = '\u2060';
+const ZERO_BIT = '\u200B';
+const ZERO_WIDTH_SPACE = '\u200C';
+
+const WATERMARK = new RegExp(`${MARK}([${ZERO_BIT}${ZERO_WIDTH_SPACE}]+)${MARK}`, 'g');
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+export const stripZeroWidth = (text: string): string => text.replace(ZERO_WIDTH, '');
+
+export const hasWatermark = (text: string): boolean => new RegExp(WATERMARK.source).test(text);
+
+const encodeId = (id: number): string =>
+  MARK + Array.from(id.toString(2), bit => (bit === '1' ? ZERO_WIDTH_SPACE : ZERO_BIT)).join('') + MARK;
+
+const decodeId = (bits: string): number =>
+  parseInt(Array.from(bits, bit => (bit === ZERO_WIDTH_SPACE ? '1' : '0')).join(''), 2);
+
+// Numbered the same way when masking and restoring: distinct substitutes in entity order, from 1
+const substituteIds = (entities: DetectedEntity[]): string[] =>
+  Array.from(new Set(entities.map(entity => entity.substitute)));
+
+export const watermarkSubstitute = (substitute: string, id: number): string => {
+  const [first, ...rest] = Array.from(substitute);
+  return first + encodeId(id) + rest.join('');
+};
+
+// Only substitutes restore maps back get a mark; a dropped value has no character to carry one
+export const watermarkEntities = (entities: DetectedEntity[]): DetectedEntity[] => {
+  const ids = substituteIds(entities);
+  return entities.map(entity => (isRestorable(entity) && entity.substitute ? {
+    ...entity,
+    substitute: watermarkSubstitute(entity.substitute, ids.indexOf(entity.substitute) + 1),
+  } : entity));
+};
+
+// The rest of the substitute after the mark, ignoring case and how its words are joined
+const tailPattern = (substitute: string): RegExp =>
+  new RegExp(
+    Array.from(substitute)
+      .slice(1)
+      .map(char => (/[\s-]/.test(char) ? '[\\s-]*' : escapeRegExp(char)))
+      .join(''),
+    'iuy'
+  );
+
+const WORD_REST = /[\p{L}\p{M}\p{N}]*(?:[.@'’_+-][\p{L}\p{M}\p{N}]+)*/uy;
+
+// Rewrites every watermarked substitute back to its exact spelling and drops the marks, so the usual
+// substitute matching can restore it. Text without marks comes back unchanged.
+export const repairWatermarkedSubstitutes = (text: string, entities: DetectedEntity[]): string => {
+  if (!text.includes(MARK)) return text;
+
+  const ids = substituteIds(entities);
+  let repaired = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(WATERMARK)) {
+    const substitute = ids[decodeId(match[1]) - 1];
+    const before = match.index - 1;
+    // The first character sits in front of the mark; two code units when it is outside the BMP
+    const start = before > 0 && /[\uDC00-\uDFFF]/.test(text[before]) ? before - 1 : before;
+    if (!substitute || start < lastIndex) continue;
+
+    const after = match.index + match[0].length;
+    const tail = tailPattern(substitute);
+    tail.lastIndex = after;
+    // When the words after the mark no longer spell the substitute, the marked word alone stands for it
+    const matched = tail.exec(text);
+    WORD_REST.lastIndex = after;
+    const end = after + (matched ?? WORD_REST.exec(text))![0].length;
+
+    repaired += text.slice(lastIndex, start) + substitute;
+    lastIndex = end;
+  }
+
+  return stripZeroWidth(repaired + text.slice(lastIndex));
+};
+
+// Whether marked text came back with its marks after a trip through another tool
+export type WatermarkCheck = 'intact' | 'stripped' | 'missing';
+
+export const checkWatermarkRoundTrip = (sample: string, returned: string): WatermarkCheck => {
+  const plain = stripZeroWidth(sample);
+  if (!stripZeroWidth(returned).toLowerCase().includes(plain.toLowerCase())) return 'missing';
+  return hasWatermark(returned) ? 'intact' : 'stripped';
+};
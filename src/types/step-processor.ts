@@ -1,5 +1,5 @@
 
-export type SensitiveDataType = 'name' | 'email' | 'phone' | 'address' | 'ssn' | 'dob' | 'account' | 'location' | 'custom';
+export type SensitiveDataType = 'name' | 'email' | 'phone' | 'address' | 'ssn' | 'dob' | 'date' | 'account' | 'location' | 'secret' | 'network' | 'custom';
 
 export type Step = {
   title: string;